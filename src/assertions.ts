@@ -0,0 +1,310 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import { LighthouseResult } from './utils';
+
+export type AssertionLevel = 'off' | 'warn' | 'error';
+
+interface AssertionOptions {
+    minScore?: number;
+    maxNumericValue?: number;
+    minNumericValue?: number;
+    maxLength?: number;
+    aggregationMethod?: string;
+}
+
+type AssertionEntry = AssertionLevel | [AssertionLevel] | [AssertionLevel, AssertionOptions];
+
+interface AssertMatrixEntry {
+    matchingUrlPattern?: string;
+    assertions: Record<string, AssertionEntry>;
+}
+
+export interface AssertionConfig {
+    matrix: AssertMatrixEntry[];
+}
+
+export interface AssertionResult {
+    url: string;
+    deviceType: string;
+    key: string;
+    level: 'warn' | 'error';
+    name: string;
+    expected: number;
+    actual: number | null;
+    passed: boolean;
+}
+
+const ASSERTION_LEVELS: AssertionLevel[] = ['off', 'warn', 'error'];
+const SUPPORTED_OPTIONS = ['minScore', 'maxNumericValue', 'minNumericValue', 'maxLength'];
+
+/**
+ * Validate a single assertion entry and normalize it to a [level, options] tuple
+ */
+function normalizeAssertionEntry(key: string, entry: unknown): [AssertionLevel, AssertionOptions] {
+    const [level, options] = Array.isArray(entry) ? entry : [entry, undefined];
+
+    if (!ASSERTION_LEVELS.includes(level as AssertionLevel)) {
+        throw new Error(`Invalid level for assertion '${key}': ${JSON.stringify(level)}. Must be one of ${ASSERTION_LEVELS.join(', ')}`);
+    }
+
+    if (options === undefined) {
+        return [level as AssertionLevel, {}];
+    }
+
+    if (typeof options !== 'object' || options === null) {
+        throw new Error(`Invalid options for assertion '${key}': expected an object`);
+    }
+
+    for (const [name, value] of Object.entries(options)) {
+        if (name === 'aggregationMethod') {
+            core.debug(`Ignoring aggregationMethod for '${key}', runs are always combined using the median`);
+            continue;
+        }
+        if (!SUPPORTED_OPTIONS.includes(name)) {
+            throw new Error(`Unsupported option '${name}' for assertion '${key}'. Supported options: ${SUPPORTED_OPTIONS.join(', ')}`);
+        }
+        if (typeof value !== 'number' || isNaN(value)) {
+            throw new Error(`Invalid value for '${name}' in assertion '${key}': must be a number`);
+        }
+    }
+
+    return [level as AssertionLevel, options as AssertionOptions];
+}
+
+/**
+ * Validate a map of assertions keyed by `categories:<id>`, `audits:<id>` or a bare audit id
+ */
+function validateAssertions(assertions: unknown): Record<string, AssertionEntry> {
+    if (typeof assertions !== 'object' || assertions === null || Array.isArray(assertions)) {
+        throw new Error('Assertions must be an object keyed by category or audit');
+    }
+
+    const validated: Record<string, AssertionEntry> = {};
+    for (const [key, entry] of Object.entries(assertions)) {
+        validated[key] = normalizeAssertionEntry(key, entry);
+    }
+
+    return validated;
+}
+
+/**
+ * Parse an assertion config in Lighthouse CI `assert` syntax.
+ *
+ * Accepts a full lighthouserc (`{ ci: { assert: ... } }`), an `assert` block
+ * (`{ assertions, assertMatrix }`) or a bare map of assertions.
+ */
+export function parseAssertionConfig(raw: string): AssertionConfig {
+    const trimmed = raw.trim();
+    let content = trimmed;
+
+    if (!trimmed.startsWith('{')) {
+        if (!fs.existsSync(trimmed)) {
+            throw new Error(`Assertions file not found: ${trimmed}`);
+        }
+        content = fs.readFileSync(trimmed, 'utf8');
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse assertions JSON: ${errorMessage}`);
+    }
+
+    const assertBlock = parsed?.ci?.assert || parsed?.assert || parsed;
+
+    if (assertBlock.preset) {
+        core.warning(`Assertion presets are not supported, ignoring preset '${assertBlock.preset}'`);
+    }
+
+    const matrix: AssertMatrixEntry[] = [];
+
+    if (Array.isArray(assertBlock.assertMatrix)) {
+        assertBlock.assertMatrix.forEach((entry: any) => {
+            matrix.push({
+                matchingUrlPattern: entry.matchingUrlPattern,
+                assertions: validateAssertions(entry.assertions || {})
+            });
+        });
+    } else if (assertBlock.assertions) {
+        matrix.push({
+            matchingUrlPattern: assertBlock.matchingUrlPattern,
+            assertions: validateAssertions(assertBlock.assertions)
+        });
+    } else if (!assertBlock.preset) {
+        matrix.push({ assertions: validateAssertions(assertBlock) });
+    }
+
+    matrix.forEach(entry => {
+        if (entry.matchingUrlPattern) {
+            try {
+                new RegExp(entry.matchingUrlPattern);
+            } catch {
+                throw new Error(`Invalid matchingUrlPattern: ${entry.matchingUrlPattern}`);
+            }
+        }
+    });
+
+    return { matrix };
+}
+
+/**
+ * Build the assertion config from the `assertions` input and the legacy `fail_on_score_below` threshold.
+ * The threshold becomes an error-level minScore assertion for every category, which explicit
+ * assertions on the same key override.
+ */
+export function buildAssertionConfig(rawAssertions: string, failOnScoreBelow: number, categories: string[]): AssertionConfig {
+    const matrix: AssertMatrixEntry[] = [];
+
+    if (failOnScoreBelow > 0) {
+        const thresholdAssertions: Record<string, AssertionEntry> = {};
+        categories.forEach(category => {
+            thresholdAssertions[`categories:${category}`] = ['error', { minScore: failOnScoreBelow }];
+        });
+        matrix.push({ assertions: thresholdAssertions });
+    }
+
+    if (rawAssertions) {
+        matrix.push(...parseAssertionConfig(rawAssertions).matrix);
+    }
+
+    return { matrix };
+}
+
+/**
+ * Collect the assertions that apply to a URL, later matrix entries overriding earlier ones
+ */
+function resolveAssertionsForUrl(config: AssertionConfig, url: string): Record<string, AssertionEntry> {
+    const resolved: Record<string, AssertionEntry> = {};
+
+    config.matrix.forEach(entry => {
+        if (entry.matchingUrlPattern && !new RegExp(entry.matchingUrlPattern).test(url)) {
+            return;
+        }
+        Object.assign(resolved, entry.assertions);
+    });
+
+    return resolved;
+}
+
+/**
+ * Check a single value against an assertion option
+ */
+function checkValue(
+    result: LighthouseResult,
+    key: string,
+    level: 'warn' | 'error',
+    name: string,
+    expected: number,
+    actual: number | null | undefined
+): AssertionResult | null {
+    if (actual === undefined) {
+        core.debug(`No value for '${name}' of '${key}' on ${result.url} (${result.deviceType}), skipping`);
+        return null;
+    }
+
+    let passed = true;
+    if (actual !== null) {
+        passed = name.startsWith('min') ? actual >= expected : actual <= expected;
+    }
+
+    return {
+        url: result.url,
+        deviceType: result.deviceType,
+        key,
+        level,
+        name,
+        expected,
+        actual,
+        passed
+    };
+}
+
+/**
+ * Evaluate a single assertion against a result
+ */
+function evaluateAssertion(result: LighthouseResult, key: string, entry: AssertionEntry): AssertionResult[] {
+    const [level, rawOptions] = normalizeAssertionEntry(key, entry);
+    if (level === 'off') {
+        return [];
+    }
+
+    const options: AssertionOptions = Object.keys(rawOptions).some(name => SUPPORTED_OPTIONS.includes(name))
+        ? rawOptions
+        : { minScore: 1 };
+
+    let score: number | null | undefined;
+    let numericValue: number | undefined;
+    let itemCount: number | undefined;
+
+    if (key.startsWith('categories:')) {
+        const categoryId = key.slice('categories:'.length);
+        const category = result.categories.find(c => c.id === categoryId);
+        if (!category) {
+            core.debug(`Category '${categoryId}' was not tested for ${result.url} (${result.deviceType}), skipping`);
+            return [];
+        }
+        score = category.score;
+    } else {
+        const auditId = key.startsWith('audits:') ? key.slice('audits:'.length) : key;
+        const audit = result.audits?.[auditId];
+        if (!audit) {
+            return [{
+                url: result.url,
+                deviceType: result.deviceType,
+                key,
+                level,
+                name: 'auditRan',
+                expected: 1,
+                actual: 0,
+                passed: false
+            }];
+        }
+        score = audit.score;
+        numericValue = audit.numericValue;
+        itemCount = audit.itemCount;
+    }
+
+    const checks: Array<AssertionResult | null> = [];
+    if (options.minScore !== undefined) {
+        checks.push(checkValue(result, key, level, 'minScore', options.minScore, score));
+    }
+    if (options.maxNumericValue !== undefined) {
+        checks.push(checkValue(result, key, level, 'maxNumericValue', options.maxNumericValue, numericValue));
+    }
+    if (options.minNumericValue !== undefined) {
+        checks.push(checkValue(result, key, level, 'minNumericValue', options.minNumericValue, numericValue));
+    }
+    if (options.maxLength !== undefined) {
+        checks.push(checkValue(result, key, level, 'maxLength', options.maxLength, itemCount));
+    }
+
+    return checks.filter((check): check is AssertionResult => check !== null);
+}
+
+/**
+ * Evaluate all configured assertions against the Lighthouse results
+ */
+export function evaluateAssertions(results: LighthouseResult[], config: AssertionConfig): AssertionResult[] {
+    const assertionResults: AssertionResult[] = [];
+
+    results.forEach(result => {
+        const assertions = resolveAssertionsForUrl(config, result.url);
+        for (const [key, entry] of Object.entries(assertions)) {
+            assertionResults.push(...evaluateAssertion(result, key, entry));
+        }
+    });
+
+    core.debug(`Evaluated ${assertionResults.length} assertions`);
+    return assertionResults;
+}
+
+/**
+ * Format an assertion result as a single human readable line
+ */
+export function formatAssertionResult(result: AssertionResult): string {
+    const operator = result.name.startsWith('min') || result.name === 'auditRan' ? '>=' : '<=';
+    const actual = result.actual === null ? 'n/a' : String(Math.round(result.actual * 1000) / 1000);
+    return `${result.url} (${result.deviceType}) ${result.key}: expected ${result.name} ${operator} ${result.expected}, found ${actual}`;
+}
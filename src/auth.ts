@@ -0,0 +1,213 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser, CookieData } from 'puppeteer-core';
+import { importModule, importScriptFunction } from './utils';
+
+type PuppeteerModule = typeof import('puppeteer-core');
+
+export interface AuthCookie {
+    name: string;
+    value: string;
+    domain?: string;
+    path?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+}
+
+export interface AuthOptions {
+    extraHeaders?: Record<string, string>;
+    cookies: AuthCookie[];
+    loginScript?: string;
+}
+
+export interface LoginContext {
+    url: string;
+    deviceType: string;
+}
+
+export type LoginScript = (browser: Browser, context: LoginContext) => Promise<void> | void;
+
+const REDACTED = '***';
+
+const secrets = new Set<string>();
+
+/**
+ * Mask a value in the workflow log and in everything that passes through redactSecrets
+ */
+function registerSecret(value: string): void {
+    if (!value) {
+        return;
+    }
+    secrets.add(value);
+    core.setSecret(value);
+}
+
+/**
+ * Replace every registered secret in a text, e.g. an error message or a saved report
+ */
+export function redactSecrets(text: string): string {
+    let redacted = text;
+    secrets.forEach(secret => {
+        redacted = redacted.split(secret).join(REDACTED);
+    });
+    return redacted;
+}
+
+/**
+ * Redact the secrets in every string of a JSON value, leaving its structure intact
+ */
+export function redactSecretsDeep<T>(value: T): T {
+    if (typeof value === 'string') {
+        return redactSecrets(value) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redactSecretsDeep(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactSecretsDeep(item)])) as T;
+    }
+    return value;
+}
+
+/**
+ * Parse the extra_headers input, a JSON object of header names and values that are all treated as secrets
+ */
+export function parseExtraHeaders(raw: string): Record<string, string> | undefined {
+    if (!raw.trim()) {
+        return undefined;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        // The parser error quotes the input, which would leak the header values
+        throw new Error('extra_headers must be a JSON object of header names and values');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('extra_headers must be a JSON object of header names and values');
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(parsed)) {
+        if (typeof value !== 'string') {
+            throw new Error(`Invalid value for header '${name}' in extra_headers: expected a string`);
+        }
+        headers[name] = value;
+        registerSecret(value);
+    }
+    return headers;
+}
+
+/**
+ * Parse the cookies input, either a JSON array of cookies or a `name=value; name2=value2` string.
+ * Cookies without a domain are set for the host of every tested URL.
+ */
+export function parseCookies(raw: string): AuthCookie[] {
+    const trimmed = raw.trim();
+    if (!trimmed) {
+        return [];
+    }
+
+    if (!trimmed.startsWith('[')) {
+        return trimmed.split(';').map(pair => pair.trim()).filter(Boolean).map(pair => {
+            const separator = pair.indexOf('=');
+            if (separator <= 0) {
+                throw new Error('cookies must be a JSON array or a "name=value; name2=value2" string');
+            }
+            const value = pair.slice(separator + 1).trim();
+            registerSecret(value);
+            return { name: pair.slice(0, separator).trim(), value };
+        });
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch {
+        throw new Error('cookies must be a JSON array or a "name=value; name2=value2" string');
+    }
+
+    if (!Array.isArray(parsed)) {
+        throw new Error('cookies must be a JSON array or a "name=value; name2=value2" string');
+    }
+
+    return parsed.map((cookie: any, index: number) => {
+        if (!cookie || typeof cookie.name !== 'string' || typeof cookie.value !== 'string') {
+            throw new Error(`Invalid cookie ${index + 1}: expected an object with a string 'name' and 'value'`);
+        }
+        registerSecret(cookie.value);
+        return {
+            name: cookie.name,
+            value: cookie.value,
+            domain: cookie.domain,
+            path: cookie.path,
+            secure: cookie.secure,
+            httpOnly: cookie.httpOnly
+        };
+    });
+}
+
+/**
+ * Read the authentication inputs. Header and cookie values are masked from here on.
+ */
+export function getAuthOptions(): AuthOptions {
+    const loginScript = core.getInput('login_script');
+    if (loginScript && !fs.existsSync(path.resolve(process.cwd(), loginScript))) {
+        throw new Error(`Login script not found: ${loginScript}`);
+    }
+
+    return {
+        extraHeaders: parseExtraHeaders(core.getInput('extra_headers')),
+        cookies: parseCookies(core.getInput('cookies')),
+        loginScript: loginScript || undefined
+    };
+}
+
+/**
+ * Check whether any authentication is configured
+ */
+export function hasAuthOptions(auth: AuthOptions): boolean {
+    return !!auth.extraHeaders || auth.cookies.length > 0 || !!auth.loginScript;
+}
+
+/**
+ * Connect Puppeteer to the Chrome on the given port, run a callback and disconnect again
+ */
+export async function withBrowser<T>(port: number, callback: (browser: Browser) => Promise<T>): Promise<T> {
+    const puppeteer = await importModule<PuppeteerModule>('puppeteer-core');
+    const browser = await puppeteer.connect({ browserURL: `http://127.0.0.1:${port}`, defaultViewport: null });
+    try {
+        return await callback(browser);
+    } finally {
+        await browser.disconnect();
+    }
+}
+
+/**
+ * Run the login script against a newly launched Chrome, so every test on it shares the logged-in session
+ */
+export async function runLoginScript(port: number, auth: AuthOptions, context: LoginContext): Promise<void> {
+    if (!auth.loginScript) {
+        return;
+    }
+
+    const login = await importScriptFunction<LoginScript>(auth.loginScript, 'Login script');
+    core.info(`🔑 Running login script for ${context.deviceType}`);
+    await withBrowser(port, browser => Promise.resolve(login(browser, context)));
+}
+
+/**
+ * Set the configured cookies in Chrome before testing a URL
+ */
+export async function setAuthCookies(port: number, auth: AuthOptions, url: string): Promise<void> {
+    if (auth.cookies.length === 0) {
+        return;
+    }
+
+    const { hostname } = new URL(url);
+    const cookies: CookieData[] = auth.cookies.map(cookie => ({ ...cookie, domain: cookie.domain || hostname }));
+    await withBrowser(port, browser => browser.setCookie(...cookies));
+}
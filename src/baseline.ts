@@ -0,0 +1,109 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LighthouseResult, LighthouseCategory } from './utils';
+
+export const RESULTS_FILE_NAME = 'results.json';
+
+/**
+ * Convert the categories object of a Lighthouse report into result categories
+ */
+function toCategories(categories: Record<string, any>): LighthouseCategory[] {
+    return Object.entries(categories)
+        .filter(([, category]) => typeof category?.score === 'number')
+        .map(([id, category]) => ({
+            id,
+            title: category.title || id,
+            score: category.score
+        }));
+}
+
+/**
+ * Convert a parsed JSON file into baseline results.
+ * Understands the results file written by this action, Lighthouse reports and raw PSI responses.
+ */
+function parseBaselineJson(data: any): LighthouseResult[] {
+    if (Array.isArray(data)) {
+        return data.filter(r => r?.url && r?.deviceType && Array.isArray(r?.categories));
+    }
+
+    if (Array.isArray(data?.results)) {
+        return parseBaselineJson(data.results);
+    }
+
+    const lhr = data?.lighthouseResult || data;
+    if (lhr?.categories && lhr?.configSettings) {
+        const url = lhr.requestedUrl || data.id || lhr.finalUrl;
+        if (!url) {
+            return [];
+        }
+        return [{
+            url,
+            deviceType: lhr.configSettings.formFactor === 'desktop' ? 'desktop' : 'mobile',
+            categories: toCategories(lhr.categories)
+        }];
+    }
+
+    return [];
+}
+
+/**
+ * Read a single baseline JSON file
+ */
+function readBaselineFile(filePath: string): LighthouseResult[] {
+    try {
+        return parseBaselineJson(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        core.debug(`Skipping baseline file ${filePath}: ${errorMessage}`);
+        return [];
+    }
+}
+
+/**
+ * Load baseline results from a results file or a directory holding a previous lighthouse-results artifact
+ */
+export function loadBaselineResults(baselinePath: string): LighthouseResult[] {
+    const resolvedPath = path.resolve(process.cwd(), baselinePath);
+
+    if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`Baseline path does not exist: ${resolvedPath}`);
+    }
+
+    if (fs.statSync(resolvedPath).isFile()) {
+        const results = readBaselineFile(resolvedPath);
+        core.info(`Loaded ${results.length} baseline results from ${resolvedPath}`);
+        return results;
+    }
+
+    const resultsFile = path.join(resolvedPath, RESULTS_FILE_NAME);
+    if (fs.existsSync(resultsFile)) {
+        const results = readBaselineFile(resultsFile);
+        core.info(`Loaded ${results.length} baseline results from ${resultsFile}`);
+        return results;
+    }
+
+    const results: LighthouseResult[] = [];
+    fs.readdirSync(resolvedPath)
+        .filter(file => file.endsWith('.json') && !file.startsWith('psi-averaged-'))
+        .forEach(file => {
+            results.push(...readBaselineFile(path.join(resolvedPath, file)));
+        });
+
+    core.info(`Loaded ${results.length} baseline results from reports in ${resolvedPath}`);
+    return results;
+}
+
+/**
+ * Write the formatted results so that later runs can use them as a baseline
+ */
+export function saveResultsFile(outputDir: string, data: unknown): string {
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const outputFile = path.join(outputDir, RESULTS_FILE_NAME);
+    fs.writeFileSync(outputFile, JSON.stringify(data, null, 2));
+    core.debug(`Saved results to ${outputFile}`);
+    return outputFile;
+}
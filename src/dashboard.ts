@@ -0,0 +1,289 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    FormattedLighthouseResults,
+    LighthouseResult,
+    METRIC_DEFINITIONS,
+    formatMetricValue,
+    formatScore,
+    getCategoryConfig,
+    getMetricRating,
+    getNormalizedCategoryName,
+    getWorkflowRunUrl,
+    sortCategories
+} from './utils';
+
+export const DASHBOARD_FILE_NAME = 'index.html';
+
+interface DashboardCell {
+    value: number | null;
+    text: string;
+    rating?: string;
+    spread?: string;
+}
+
+interface DashboardRow {
+    url: string;
+    deviceType: string;
+    cells: DashboardCell[];
+    report?: { href: string; text: string };
+}
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Get the rating class of a 0-1 score, using the same thresholds as the score emoji
+ */
+function getScoreRating(score: number): string {
+    if (score >= 0.9) return 'good';
+    if (score >= 0.5) return 'needs-improvement';
+    return 'poor';
+}
+
+/**
+ * Link local reports relative to the dashboard, which is saved next to them
+ */
+function getReportLink(result: LighthouseResult): DashboardRow['report'] {
+    if (!result.reportUrl) {
+        return undefined;
+    }
+
+    if (/^https?:\/\//.test(result.reportUrl)) {
+        return { href: result.reportUrl, text: 'PageSpeed Insights' };
+    }
+
+    const fileName = result.reportUrl.split(/[\\/]/).pop() || result.reportUrl;
+    return { href: encodeURI(fileName), text: 'Lighthouse report' };
+}
+
+/**
+ * Build the columns and rows shown by the dashboard
+ */
+function getDashboardData(results: FormattedLighthouseResults): { columns: string[]; rows: DashboardRow[] } {
+    const categories = sortCategories([
+        ...new Set(results.results.flatMap(r => r.categories.map(c => getNormalizedCategoryName(c.id))))
+    ]);
+    const metricIds = Object.keys(METRIC_DEFINITIONS).filter(id => results.results.some(r => r.metrics?.[id]));
+
+    const columns = [
+        ...categories.map(category => getCategoryConfig(category).title),
+        ...metricIds.map(id => METRIC_DEFINITIONS[id].shortTitle)
+    ];
+
+    const rows = results.results.map(result => {
+        const categoryCells = categories.map(category => {
+            const score = result.categories.find(c => getNormalizedCategoryName(c.id) === category);
+            if (!score) {
+                return { value: null, text: '-' };
+            }
+
+            const runScores = result.runScores?.[score.id] || [];
+            const spread = runScores.length > 1
+                ? `${formatScore(Math.min(...runScores))}–${formatScore(Math.max(...runScores))} over ${runScores.length} runs`
+                : undefined;
+
+            return {
+                value: Math.round(score.score * 100),
+                text: formatScore(score.score),
+                rating: getScoreRating(score.score),
+                spread
+            };
+        });
+
+        const metricCells = metricIds.map(id => {
+            const metric = result.metrics?.[id];
+            if (!metric) {
+                return { value: null, text: '-' };
+            }
+            return {
+                value: metric.numericValue,
+                text: formatMetricValue(id, metric.numericValue),
+                rating: getMetricRating(id, metric.numericValue)
+            };
+        });
+
+        return {
+            url: result.url,
+            deviceType: result.deviceType,
+            cells: [...categoryCells, ...metricCells],
+            report: getReportLink(result)
+        };
+    });
+
+    return { columns, rows };
+}
+
+const DASHBOARD_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 24px; color: #202124; }
+h1 { font-size: 22px; margin-bottom: 4px; }
+.meta { color: #5f6368; margin-bottom: 16px; }
+.controls { display: flex; gap: 12px; margin-bottom: 12px; }
+.controls input { flex: 1; max-width: 400px; padding: 6px 8px; }
+.controls select { padding: 6px 8px; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; }
+th, td { border-bottom: 1px solid #e0e0e0; padding: 8px; text-align: left; white-space: nowrap; }
+th { background: #f8f9fa; cursor: pointer; user-select: none; position: sticky; top: 0; }
+th.sorted-asc::after { content: " ▲"; }
+th.sorted-desc::after { content: " ▼"; }
+td.url { white-space: normal; word-break: break-all; }
+.good { color: #0c7a43; }
+.needs-improvement { color: #c26400; }
+.poor { color: #c5221f; }
+.spread { display: block; color: #5f6368; font-size: 11px; }
+.failures { margin-top: 24px; }
+.failures li { color: #c5221f; }
+`;
+
+const DASHBOARD_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('dashboard-data').textContent);
+  var tbody = document.querySelector('#results tbody');
+  var headers = document.querySelectorAll('#results th');
+  var filterInput = document.getElementById('filter');
+  var deviceSelect = document.getElementById('device');
+  var sortColumn = -1;
+  var sortDirection = 1;
+
+  function sortValue(row, column) {
+    if (column === 0) return row.url;
+    if (column === 1) return row.deviceType;
+    return row.cells[column - 2].value;
+  }
+
+  function cell(text, className) {
+    var td = document.createElement('td');
+    if (className) td.className = className;
+    td.textContent = text;
+    return td;
+  }
+
+  function render() {
+    var query = filterInput.value.toLowerCase();
+    var device = deviceSelect.value;
+    var rows = data.rows.filter(function (row) {
+      return row.url.toLowerCase().indexOf(query) !== -1 && (!device || row.deviceType === device);
+    });
+
+    if (sortColumn >= 0) {
+      rows.sort(function (a, b) {
+        var x = sortValue(a, sortColumn);
+        var y = sortValue(b, sortColumn);
+        if (x === y) return 0;
+        if (x === null) return 1;
+        if (y === null) return -1;
+        return (x < y ? -1 : 1) * sortDirection;
+      });
+    }
+
+    tbody.textContent = '';
+    rows.forEach(function (row) {
+      var tr = document.createElement('tr');
+      tr.appendChild(cell(row.url, 'url'));
+      tr.appendChild(cell(row.deviceType === 'mobile' ? '📱 Mobile' : '💻 Desktop'));
+      row.cells.forEach(function (value) {
+        var td = cell(value.text, value.rating);
+        if (value.spread) {
+          var spread = document.createElement('span');
+          spread.className = 'spread';
+          spread.textContent = value.spread;
+          td.appendChild(spread);
+        }
+        tr.appendChild(td);
+      });
+      var report = document.createElement('td');
+      if (row.report) {
+        var link = document.createElement('a');
+        link.href = row.report.href;
+        link.textContent = row.report.text;
+        report.appendChild(link);
+      } else {
+        report.textContent = '-';
+      }
+      tr.appendChild(report);
+      tbody.appendChild(tr);
+    });
+
+    document.getElementById('count').textContent = rows.length + ' of ' + data.rows.length + ' results';
+  }
+
+  headers.forEach(function (header, index) {
+    if (index === headers.length - 1) return;
+    header.addEventListener('click', function () {
+      sortDirection = sortColumn === index ? -sortDirection : (index < 2 ? 1 : -1);
+      sortColumn = index;
+      headers.forEach(function (h) { h.classList.remove('sorted-asc', 'sorted-desc'); });
+      header.classList.add(sortDirection === 1 ? 'sorted-asc' : 'sorted-desc');
+      render();
+    });
+  });
+
+  filterInput.addEventListener('input', render);
+  deviceSelect.addEventListener('change', render);
+  render();
+})();
+`;
+
+/**
+ * Create a self-contained HTML dashboard of all results, with sorting and filtering in inline JS
+ */
+export function createDashboardHtml(results: FormattedLighthouseResults, title: string): string {
+    const { columns, rows } = getDashboardData(results);
+    const runUrl = getWorkflowRunUrl();
+    // Escape "<" so that the JSON cannot close the script element
+    const json = JSON.stringify({ rows }).replace(/</g, '\\u003c');
+
+    const failures = results.failures || [];
+    const failureList = failures.length > 0
+        ? `<div class="failures"><h2>Failed Runs</h2><ul>${failures.map(failure =>
+            `<li>${escapeHtml(`${failure.url} (${failure.deviceType}): ${failure.error}`)}</li>`).join('')}</ul></div>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${DASHBOARD_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">Tested ${results.summary.totalUrls} URLs with ${results.summary.totalTests} tests · ${new Date().toISOString()}${
+    runUrl ? ` · <a href="${escapeHtml(runUrl)}">Workflow run</a>` : ''}</div>
+<div class="controls">
+<input id="filter" type="search" placeholder="Filter by URL">
+<select id="device"><option value="">All devices</option><option value="mobile">Mobile</option><option value="desktop">Desktop</option></select>
+<span id="count" class="meta"></span>
+</div>
+<table id="results">
+<thead><tr><th>URL</th><th>Device</th>${columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}<th>Report</th></tr></thead>
+<tbody></tbody>
+</table>
+${failureList}
+<script type="application/json" id="dashboard-data">${json}</script>
+<script>${DASHBOARD_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the dashboard next to the Lighthouse reports so that it is part of the uploaded artifact
+ */
+export function writeDashboard(results: FormattedLighthouseResults, title: string, outputDir: string): string {
+    const outputFile = path.join(outputDir, DASHBOARD_FILE_NAME);
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(outputFile, createDashboardHtml(results, title));
+    core.info(`Dashboard written to ${outputFile}`);
+    return outputFile;
+}
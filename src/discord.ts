@@ -0,0 +1,315 @@
+import * as core from '@actions/core';
+import { AssertionResult, formatAssertionResult } from './assertions';
+import {
+    FormattedLighthouseResults,
+    LighthouseResult,
+    formatScore,
+    formatScoreDelta,
+    getCategoryConfig,
+    getKeyInsights,
+    getNormalizedCategoryName,
+    getScoreEmoji,
+    getWorkflowRunUrl,
+    sortCategories
+} from './utils';
+
+// https://discord.com/developers/docs/resources/message#embed-object-embed-limits
+const DISCORD_LIMITS = {
+    embedsPerMessage: 10,
+    charactersPerMessage: 6000,
+    fieldsPerEmbed: 25,
+    title: 256,
+    description: 4096,
+    fieldName: 256,
+    fieldValue: 1024,
+    footer: 2048
+};
+
+const SCORE_COLORS = {
+    good: 0x0cce6b,
+    average: 0xffa400,
+    poor: 0xff4e42
+};
+
+interface DiscordEmbedField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+interface DiscordEmbed {
+    title?: string;
+    url?: string;
+    description?: string;
+    color?: number;
+    fields?: DiscordEmbedField[];
+    footer?: { text: string };
+    timestamp?: string;
+}
+
+/**
+ * Shorten text to a Discord limit
+ */
+function truncate(text: string, limit: number): string {
+    return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+/**
+ * Pick the embed colour from the worst score, with the same thresholds as getScoreEmoji
+ */
+function getScoreColor(score: number): number {
+    if (score >= 0.9) return SCORE_COLORS.good;
+    if (score >= 0.5) return SCORE_COLORS.average;
+    return SCORE_COLORS.poor;
+}
+
+/**
+ * Join lines into as few chunks as possible that stay within a character limit
+ */
+function splitLines(lines: string[], limit: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    lines.map(line => truncate(line, limit)).forEach(line => {
+        if (current && current.length + line.length + 1 > limit) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${line}` : line;
+    });
+
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+/**
+ * Count the characters of an embed the way Discord does for the per-message limit
+ */
+function getEmbedLength(embed: DiscordEmbed): number {
+    return (embed.title?.length || 0) +
+        (embed.description?.length || 0) +
+        (embed.footer?.text.length || 0) +
+        (embed.fields || []).reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+}
+
+/**
+ * Format one device line of a category field
+ */
+function formatDeviceScore(result: LighthouseResult, categoryId: string, baselineScore?: number): string {
+    const category = result.categories.find(c => getNormalizedCategoryName(c.id) === categoryId);
+    if (!category) {
+        return '';
+    }
+
+    const icon = result.deviceType === 'mobile' ? '📱' : '💻';
+    const delta = baselineScore !== undefined ? ` (${formatScoreDelta(category.score, baselineScore)})` : '';
+    return `${icon} ${getScoreEmoji(category.score)} ${formatScore(category.score)}${delta}`;
+}
+
+/**
+ * Create the embeds of one URL, with a mobile/desktop field per category.
+ * URLs with more fields than an embed allows continue in further embeds.
+ */
+function createUrlEmbeds(results: FormattedLighthouseResults, url: string, urlResults: LighthouseResult[]): DiscordEmbed[] {
+    const categories = sortCategories([
+        ...new Set(urlResults.flatMap(r => r.categories.map(c => getNormalizedCategoryName(c.id))))
+    ]);
+    const worstScore = Math.min(...urlResults.flatMap(r => r.categories.map(c => c.score)));
+
+    const fields = categories.map(categoryId => {
+        const config = getCategoryConfig(categoryId);
+        const lines = urlResults.map(result => {
+            const category = result.categories.find(c => getNormalizedCategoryName(c.id) === categoryId);
+            const baselineScore = category
+                ? results.summary.baselineScores?.[url]?.[result.deviceType]?.[category.id]
+                : undefined;
+            return formatDeviceScore(result, categoryId, baselineScore);
+        }).filter(line => line);
+
+        return {
+            name: truncate(`${config.icon} ${config.title}`, DISCORD_LIMITS.fieldName),
+            value: truncate(lines.join('\n') || '-', DISCORD_LIMITS.fieldValue),
+            inline: true
+        };
+    });
+
+    const reportUrl = urlResults.find(r => r.reportUrl && /^https?:\/\//.test(r.reportUrl))?.reportUrl;
+    const embeds: DiscordEmbed[] = [];
+    for (let i = 0; i < Math.max(fields.length, 1); i += DISCORD_LIMITS.fieldsPerEmbed) {
+        embeds.push({
+            title: truncate(i === 0 ? url : `${url} (continued)`, DISCORD_LIMITS.title),
+            url: reportUrl,
+            color: getScoreColor(worstScore),
+            fields: fields.slice(i, i + DISCORD_LIMITS.fieldsPerEmbed)
+        });
+    }
+    return embeds;
+}
+
+/**
+ * Create all embeds: a summary, one per URL, then Key Insights, regressions and failed assertions
+ */
+function createDiscordEmbeds(
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[]
+): DiscordEmbed[] {
+    const runUrl = getWorkflowRunUrl();
+    const worstScore = results.results.length > 0
+        ? Math.min(...results.results.flatMap(r => r.categories.map(c => c.score)))
+        : 0;
+
+    const embeds: DiscordEmbed[] = [{
+        title: truncate(title, DISCORD_LIMITS.title),
+        url: runUrl,
+        color: getScoreColor(worstScore),
+        description: truncate(
+            `**Summary:** Tested ${results.summary.totalUrls} URLs with ${results.summary.totalTests} tests` +
+                (results.summary.baselineScores ? ' · Changes shown against baseline in points' : ''),
+            DISCORD_LIMITS.description
+        )
+    }];
+
+    const resultsByUrl = new Map<string, LighthouseResult[]>();
+    results.results.forEach(result => {
+        resultsByUrl.set(result.url, [...(resultsByUrl.get(result.url) || []), result]);
+    });
+    resultsByUrl.forEach((urlResults, url) => embeds.push(...createUrlEmbeds(results, url, urlResults)));
+
+    const sections: Array<{ title: string; lines: string[] }> = [
+        {
+            title: 'Key Insights',
+            lines: getKeyInsights(results).map(insight => `• **${insight.label}:** ${insight.text}`)
+        },
+        {
+            title: '📉 Regressions',
+            lines: (results.summary.regressions || []).map(regression =>
+                `• ${regression.url} (${regression.deviceType}) ${getCategoryConfig(regression.category).title}: ` +
+                `${formatScore(regression.previousScore)} → ${formatScore(regression.currentScore)}`)
+        },
+        {
+            title: '❌ Failed Assertions',
+            lines: assertionResults
+                .filter(result => !result.passed && result.level === 'error')
+                .map(result => `• ${formatAssertionResult(result)}`)
+        }
+    ];
+
+    sections.filter(section => section.lines.length > 0).forEach(section => {
+        splitLines(section.lines, DISCORD_LIMITS.description).forEach((description, index) => {
+            embeds.push({ title: index === 0 ? section.title : `${section.title} (continued)`, color: embeds[0].color, description });
+        });
+    });
+
+    const footer = [`Generated by Lighthouse CI Slack Reporter`];
+    if (runUrl) {
+        footer.push(`Full report: ${runUrl}`);
+    }
+    embeds[embeds.length - 1].footer = { text: truncate(footer.join(' · '), DISCORD_LIMITS.footer) };
+    embeds[embeds.length - 1].timestamp = new Date().toISOString();
+
+    return embeds;
+}
+
+/**
+ * Group embeds into messages that respect the per-message embed and character limits
+ */
+function splitIntoMessages(embeds: DiscordEmbed[]): DiscordEmbed[][] {
+    const messages: DiscordEmbed[][] = [];
+    let current: DiscordEmbed[] = [];
+    let currentLength = 0;
+
+    embeds.forEach(embed => {
+        const length = getEmbedLength(embed);
+        if (current.length > 0 &&
+            (current.length >= DISCORD_LIMITS.embedsPerMessage || currentLength + length > DISCORD_LIMITS.charactersPerMessage)) {
+            messages.push(current);
+            current = [];
+            currentLength = 0;
+        }
+        current.push(embed);
+        currentLength += length;
+    });
+
+    if (current.length > 0) {
+        messages.push(current);
+    }
+    return messages;
+}
+
+/**
+ * Get the seconds to wait after a 429 from the JSON body, or from the Retry-After header when a proxy answered
+ * with a body that is not JSON
+ */
+function getRetryAfter(response: Response, errorText: string): number {
+    try {
+        const retryAfter = Number(JSON.parse(errorText).retry_after);
+        if (retryAfter > 0) {
+            return retryAfter;
+        }
+    } catch {
+        core.debug('Discord rate limit response is not JSON, using the Retry-After header');
+    }
+    return Number(response.headers.get('retry-after')) || 1;
+}
+
+/**
+ * Post one message to a Discord webhook, waiting once when rate limited
+ */
+async function sendViaWebhook(webhookUrl: string, embeds: DiscordEmbed[], timeoutMs: number = 10000): Promise<void> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const response = await fetch(webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ embeds }),
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+
+        if (response.ok) {
+            return;
+        }
+
+        const errorText = await response.text();
+        if (response.status === 429 && attempt === 0) {
+            const retryAfter = getRetryAfter(response, errorText);
+            core.warning(`Discord rate limit hit, retrying in ${retryAfter}s`);
+            await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+            continue;
+        }
+
+        throw new Error(`Discord webhook error: ${response.status} - ${errorText}`);
+    }
+}
+
+/**
+ * Send Lighthouse results to Discord
+ */
+export async function sendDiscordReport(
+    results: FormattedLighthouseResults,
+    title: string = 'Lighthouse Test Results',
+    assertionResults: AssertionResult[] = []
+): Promise<void> {
+    const webhookUrl = core.getInput('discord_webhook_url');
+    const timeoutMs = parseInt(core.getInput('discord_timeout_ms') || '10000');
+
+    if (!webhookUrl) {
+        throw new Error('discord_webhook_url must be provided');
+    }
+
+    core.info('Preparing to send report to Discord');
+
+    const messages = splitIntoMessages(createDiscordEmbeds(results, title, assertionResults));
+    for (let i = 0; i < messages.length; i++) {
+        core.debug(`Sending Discord message ${i + 1}/${messages.length} with ${messages[i].length} embeds`);
+        try {
+            await sendViaWebhook(webhookUrl, messages[i], timeoutMs);
+        } catch (error) {
+            core.error(`Failed to send message ${i + 1}/${messages.length} to Discord`);
+            throw error;
+        }
+    }
+
+    core.info(`Successfully sent report to Discord in ${messages.length} message(s)`);
+}
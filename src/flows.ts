@@ -0,0 +1,261 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as glob from 'glob';
+import * as path from 'path';
+import type { FlowResult } from 'lighthouse';
+import type { Browser, CookieData, Page } from 'puppeteer-core';
+import { AuthOptions, redactSecrets, redactSecretsDeep, withBrowser } from './auth';
+import {
+    ChromeWorker,
+    LighthouseModule,
+    closeChromeWorker,
+    createChromeWorker,
+    createLighthouseFlags,
+    getWorkerChrome,
+    loadLighthouseConfig,
+    prepareOutputDir
+} from './lighthouse';
+import { runWithConcurrency } from './scheduler';
+import {
+    LighthouseCategory,
+    LighthouseResult,
+    LighthouseTestFailure,
+    ProgressCallback,
+    extractAudits,
+    extractMetrics,
+    importModule,
+    importScriptFunction
+} from './utils';
+
+type UserFlow = Awaited<ReturnType<LighthouseModule['startFlow']>>;
+
+export interface FlowContext {
+    browser: Browser;
+    page: Page;
+    deviceType: string;
+}
+
+export type FlowScript = (flow: UserFlow, context: FlowContext) => Promise<void> | void;
+
+interface FlowTask {
+    name: string;
+    scriptPath: string;
+    deviceType: string;
+}
+
+/**
+ * Get the name of a flow from its script file, e.g. `checkout` for `flows/checkout.mjs`. When another
+ * script has the same file name, the path is kept to tell them apart, e.g. `flows/shop/checkout`.
+ */
+export function getFlowName(scriptPath: string, scriptPaths: string[]): string {
+    const baseName = (file: string): string => path.basename(file).replace(/\.[^.]+$/, '');
+    const name = baseName(scriptPath);
+    if (scriptPaths.filter(file => baseName(file) === name).length <= 1) {
+        return name;
+    }
+    return path.relative(process.cwd(), path.resolve(scriptPath)).split(path.sep).join('/').replace(/\.[^./]+$/, '');
+}
+
+/**
+ * Resolve the flows input, paths or glob patterns of user-flow scripts, to a sorted list of files
+ */
+export function resolveFlowScripts(patterns: string[]): string[] {
+    const scriptPaths = patterns.flatMap(pattern => {
+        const files = glob.sync(pattern, { nodir: true }).sort();
+        if (files.length === 0) {
+            throw new Error(`No flow scripts found for ${pattern}`);
+        }
+        return files;
+    });
+    // Overlapping patterns would otherwise run a script twice under the same name
+    return [...new Set(scriptPaths)];
+}
+
+/**
+ * Turn every step of a flow into a result row named `<flow> › <step>`, sharing the flow's HTML report.
+ * Steps with the same name, e.g. Lighthouse's default `Snapshot report (…)`, get their step number so that
+ * their rows do not collide. Timespan and snapshot steps only score some categories, the others are left
+ * out of their row.
+ */
+function getFlowStepResults(flowResult: FlowResult, flowName: string, deviceType: string, reportUrl: string): LighthouseResult[] {
+    const stepNames = flowResult.steps.map(step => step.name);
+    return flowResult.steps.map((step, index) => {
+        const isRepeated = stepNames.filter(name => name === step.name).length > 1;
+        const stepName = isRepeated ? `${step.name} (step ${index + 1})` : step.name;
+        const categories: LighthouseCategory[] = Object.entries(step.lhr.categories)
+            .filter(([, category]) => typeof category.score === 'number')
+            .map(([id, category]) => ({ id, title: category.title, score: category.score as number }));
+
+        return {
+            url: `${flowName} › ${stepName}`,
+            deviceType,
+            categories,
+            metrics: extractMetrics(step.lhr.audits),
+            audits: extractAudits(step.lhr.audits),
+            reportUrl
+        };
+    });
+}
+
+/**
+ * Run a user-flow script on the worker's Chrome and save the flow report
+ */
+async function runFlow(
+    worker: ChromeWorker,
+    task: FlowTask,
+    categories: string[],
+    timeout: number,
+    throttlingMethod: string,
+    locale: string,
+    lighthouseConfig: string | undefined,
+    cpuSlowdownMultiplier: number | undefined,
+    disableCpuThrottling: boolean
+): Promise<LighthouseResult[]> {
+    const { name, scriptPath, deviceType } = task;
+    core.info(`Running user flow: ${name}, Device: ${deviceType}`);
+
+    const outputDir = prepareOutputDir();
+    const outputBase = path.join(outputDir, `flow-${encodeURIComponent(name.replace(/[^a-zA-Z0-9]/g, '_'))}-${deviceType}`);
+    const outputFile = `${outputBase}.report.json`;
+    const htmlOutputFile = `${outputBase}.report.html`;
+
+    const script = await importScriptFunction<FlowScript>(scriptPath, 'Flow script');
+    const flags = createLighthouseFlags(
+        deviceType,
+        categories,
+        timeout,
+        throttlingMethod,
+        locale,
+        cpuSlowdownMultiplier,
+        disableCpuThrottling,
+        worker.auth.extraHeaders
+    );
+    const config = deviceType === 'mobile' && lighthouseConfig ? await loadLighthouseConfig(lighthouseConfig) : undefined;
+    const { startFlow, generateReport } = await importModule<LighthouseModule>('lighthouse');
+
+    const chrome = await getWorkerChrome(worker, deviceType, name);
+    const flowResult = await withBrowser(chrome.port, async browser => {
+        // A flow has no URL to take the host from, so only cookies with a domain can be set up front
+        const cookies: CookieData[] = worker.auth.cookies.flatMap(cookie => (cookie.domain ? [{ ...cookie, domain: cookie.domain }] : []));
+        if (cookies.length > 0) {
+            await browser.setCookie(...cookies);
+        }
+
+        const page = await browser.newPage();
+        try {
+            const flow = await startFlow(page, { name, flags, config });
+            await script(flow, { browser, page, deviceType });
+            return await flow.createFlowResult();
+        } finally {
+            await page.close();
+        }
+    });
+
+    if (flowResult.steps.length === 0) {
+        throw new Error(`Flow script ${scriptPath} did not run any steps`);
+    }
+
+    // Like the page reports, the flow report is saved without the extra headers and cookies
+    const reportResult: FlowResult = redactSecretsDeep({
+        ...flowResult,
+        steps: flowResult.steps.map(step => ({
+            ...step,
+            lhr: { ...step.lhr, configSettings: { ...step.lhr.configSettings, extraHeaders: null } }
+        }))
+    });
+    fs.writeFileSync(outputFile, JSON.stringify(reportResult, null, 2));
+    fs.writeFileSync(htmlOutputFile, generateReport(reportResult, 'html'));
+    core.info(`Saved flow report to ${htmlOutputFile}`);
+
+    return getFlowStepResults(reportResult, name, deviceType, htmlOutputFile);
+}
+
+/**
+ * Run the user-flow scripts on every device type. Each step is reported as its own result, and the
+ * results keep the order of the scripts.
+ */
+export async function runLighthouseFlows(
+    scriptPaths: string[],
+    deviceTypes: string[],
+    categories: string[],
+    chromeFlags: string,
+    timeout: number,
+    throttlingMethod: string,
+    locale: string,
+    lighthouseConfig: string | undefined,
+    cpuSlowdownMultiplier: number | undefined,
+    disableCpuThrottling: boolean,
+    concurrency: number,
+    auth: AuthOptions,
+    failures: LighthouseTestFailure[] = [],
+    onProgress?: ProgressCallback
+): Promise<LighthouseResult[]> {
+    core.info(`Starting ${scriptPaths.length} user flows on ${deviceTypes.length} device types`);
+
+    const tasks: FlowTask[] = scriptPaths.flatMap(scriptPath =>
+        deviceTypes.map(deviceType => ({ name: getFlowName(scriptPath, scriptPaths), scriptPath, deviceType })));
+    const taskResults = new Map<FlowTask, LighthouseResult[]>();
+    const taskErrors = new Map<FlowTask, string>();
+    // Flow scripts can log in themselves through the page, the login script only runs for URL tests
+    const flowAuth: AuthOptions = { extraHeaders: auth.extraHeaders, cookies: auth.cookies };
+    if (auth.loginScript) {
+        core.warning('login_script does not run for user flows, log in with steps of the flow script instead');
+    }
+    if (auth.cookies.some(cookie => !cookie.domain)) {
+        core.warning('Cookies without a domain are not set for user flows, pass cookies as a JSON array with a domain to use them in flows');
+    }
+
+    await runWithConcurrency(tasks, concurrency, {
+        create: () => createChromeWorker(chromeFlags, flowAuth),
+        run: async (worker, task) => {
+            onProgress?.({ url: task.name, deviceType: task.deviceType, status: 'running' });
+            try {
+                const stepResults = await runFlow(
+                    worker,
+                    task,
+                    categories,
+                    timeout,
+                    throttlingMethod,
+                    locale,
+                    lighthouseConfig,
+                    cpuSlowdownMultiplier,
+                    disableCpuThrottling
+                );
+                taskResults.set(task, stepResults);
+                onProgress?.({ url: task.name, deviceType: task.deviceType, status: 'done' });
+                core.info(`✅ Completed user flow ${task.name} on ${task.deviceType} (${stepResults.length} steps)`);
+            } catch (error) {
+                const errorMessage = redactSecrets(error instanceof Error ? error.message : String(error));
+                core.warning(`Failed user flow ${task.name} on ${task.deviceType}: ${errorMessage}`);
+                taskErrors.set(task, errorMessage);
+                onProgress?.({ url: task.name, deviceType: task.deviceType, status: 'failed' });
+            }
+        },
+        dispose: closeChromeWorker
+    });
+
+    tasks.forEach(task => {
+        const error = taskErrors.get(task);
+        if (error) {
+            failures.push({ url: task.name, deviceType: task.deviceType, error });
+        }
+    });
+
+    // Order the rows by flow and step, with the devices of a step next to each other
+    const results: LighthouseResult[] = [];
+    scriptPaths.forEach(scriptPath => {
+        const flowTasks = tasks.filter(task => task.scriptPath === scriptPath);
+        const stepCount = Math.max(0, ...flowTasks.map(task => taskResults.get(task)?.length || 0));
+        for (let step = 0; step < stepCount; step++) {
+            flowTasks.forEach(task => {
+                const result = taskResults.get(task)?.[step];
+                if (result) {
+                    results.push(result);
+                }
+            });
+        }
+    });
+
+    core.info(`Completed user flows: ${taskResults.size} successful, ${taskErrors.size} failed`);
+    return results;
+}
@@ -0,0 +1,132 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { AssertionResult } from './assertions';
+import { getScoreTableData } from './summary';
+import { FormattedLighthouseResults, LighthouseResult, formatScore, getCategoryConfig, getWorkflowRunUrl } from './utils';
+
+const COMMENT_MARKER = '<!-- lhci-slack-reporter -->';
+
+/**
+ * Escape text for use inside a Markdown table cell
+ */
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Create a Markdown link to the report of a single result
+ */
+function formatReportLink(result: LighthouseResult, runUrl: string | undefined): string {
+    if (!result.reportUrl) {
+        return '-';
+    }
+
+    if (/^https?:\/\//.test(result.reportUrl)) {
+        return `[PageSpeed Insights](${result.reportUrl})`;
+    }
+
+    const fileName = result.reportUrl.split(/[\\/]/).pop() || result.reportUrl;
+    return runUrl ? `[${escapeTableCell(fileName)}](${runUrl}#artifacts)` : escapeTableCell(fileName);
+}
+
+/**
+ * Create the Markdown body of the pull request comment
+ */
+function createCommentBody(
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[]
+): string {
+    const runUrl = getWorkflowRunUrl();
+    const { categoryHeaders, rows } = getScoreTableData(results);
+
+    const lines = [
+        COMMENT_MARKER,
+        `## ${title}`,
+        '',
+        `Tested ${results.summary.totalUrls} URLs with ${results.summary.totalTests} tests` +
+            (results.summary.baselineScores ? ', changes shown against the default branch in points' : ''),
+        '',
+        `| URL | Device | ${categoryHeaders.join(' | ')} | Report |`,
+        `|---|---|${categoryHeaders.map(() => '---').join('|')}|---|`,
+        ...rows.map(({ result, scoreCells }) =>
+            `| ${escapeTableCell(result.url)} | ${result.deviceType === 'mobile' ? '📱' : '💻'} | ${scoreCells.join(' | ')} | ${formatReportLink(result, runUrl)} |`
+        )
+    ];
+
+    const regressions = results.summary.regressions || [];
+    if (regressions.length > 0) {
+        lines.push('', '### 📉 Regressions', '');
+        regressions.forEach(regression => {
+            lines.push(`- ${regression.url} (${regression.deviceType}) ${getCategoryConfig(regression.category).title}: ` +
+                `${formatScore(regression.previousScore)} → ${formatScore(regression.currentScore)}`);
+        });
+    }
+
+    const failedErrors = assertionResults.filter(result => !result.passed && result.level === 'error');
+    if (failedErrors.length > 0) {
+        lines.push('', `❌ ${failedErrors.length} assertion(s) failed, see the job summary for details`);
+    }
+
+    if (results.failures && results.failures.length > 0) {
+        lines.push('', `⚠️ ${results.failures.length} test(s) could not be run: ` +
+            results.failures.map(failure => `${failure.url} (${failure.deviceType})`).join(', '));
+    }
+
+    if (runUrl) {
+        lines.push('', `<sub>Full Lighthouse reports are in the [lighthouse-reports artifact](${runUrl}#artifacts) · ${new Date().toISOString()}</sub>`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Get the number of the pull request that triggered the workflow, if any
+ */
+export function getPullRequestNumber(): number | undefined {
+    return github.context.payload.pull_request?.number;
+}
+
+/**
+ * Create or update a single pull request comment with the results, found by a hidden marker
+ */
+export async function sendPullRequestComment(
+    results: FormattedLighthouseResults,
+    title: string,
+    token: string,
+    assertionResults: AssertionResult[] = []
+): Promise<void> {
+    const pullNumber = getPullRequestNumber();
+    if (!pullNumber) {
+        core.info('Not running on a pull request, skipping pull request comment');
+        return;
+    }
+
+    const octokit = github.getOctokit(token);
+    const { owner, repo } = github.context.repo;
+    const body = createCommentBody(results, title, assertionResults);
+
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+        owner,
+        repo,
+        issue_number: pullNumber,
+        per_page: 100
+    });
+    const existing = comments.find(comment => comment.body?.includes(COMMENT_MARKER));
+
+    if (existing) {
+        await octokit.rest.issues.updateComment({ owner, repo, comment_id: existing.id, body });
+        core.info(`Updated results comment on pull request #${pullNumber}`);
+    } else {
+        await octokit.rest.issues.createComment({ owner, repo, issue_number: pullNumber, body });
+        core.info(`Created results comment on pull request #${pullNumber}`);
+    }
+}
+
+/**
+ * Get the ref of the repository's default branch from the event payload
+ */
+export function getDefaultBranchRef(): string | undefined {
+    const defaultBranch = github.context.payload.repository?.default_branch;
+    return defaultBranch ? `refs/heads/${defaultBranch}` : undefined;
+}
@@ -0,0 +1,187 @@
+import * as core from '@actions/core';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as util from 'util';
+import { HistoryEntry, LighthouseResult } from './utils';
+
+const execFilePromise = util.promisify(execFile);
+
+export interface HistoryOptions {
+    filePath: string;
+    branch?: string;
+    size: number;
+}
+
+/**
+ * Run a git command, returning its trimmed stdout
+ */
+async function git(args: string[], cwd?: string): Promise<string> {
+    core.debug(`Executing: git ${args.join(' ')}`);
+    const { stdout } = await execFilePromise('git', args, { cwd, maxBuffer: 50 * 1024 * 1024 });
+    return stdout.trim();
+}
+
+/**
+ * Parse JSON-lines history content, skipping lines that cannot be read
+ */
+function parseHistory(content: string): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+
+    content.split('\n').filter(line => line.trim()).forEach((line, index) => {
+        try {
+            const entry = JSON.parse(line);
+            if (entry?.timestamp && Array.isArray(entry?.results)) {
+                entries.push(entry);
+            }
+        } catch {
+            core.debug(`Skipping invalid history line ${index + 1}`);
+        }
+    });
+
+    return entries;
+}
+
+/**
+ * Create a history entry for the current run.
+ * Only category scores are kept so that the file stays small over many runs.
+ */
+export function createHistoryEntry(results: LighthouseResult[]): HistoryEntry {
+    return {
+        timestamp: new Date().toISOString(),
+        sha: process.env.GITHUB_SHA,
+        ref: process.env.GITHUB_REF,
+        runId: process.env.GITHUB_RUN_ID,
+        results: results.map(result => ({
+            url: result.url,
+            deviceType: result.deviceType,
+            categories: result.categories
+        }))
+    };
+}
+
+/**
+ * Load all entries of the score history from a file or from a file on a branch
+ */
+export async function loadHistory(options: HistoryOptions): Promise<HistoryEntry[]> {
+    let content = '';
+
+    if (options.branch) {
+        try {
+            await git(['fetch', '--depth=1', 'origin', options.branch]);
+            content = await git(['show', `FETCH_HEAD:${options.filePath}`]);
+        } catch {
+            core.info(`No history found on branch '${options.branch}', starting a new one`);
+            return [];
+        }
+    } else {
+        const resolvedPath = path.resolve(process.cwd(), options.filePath);
+        if (!fs.existsSync(resolvedPath)) {
+            core.info(`No history found at ${resolvedPath}, starting a new one`);
+            return [];
+        }
+        content = fs.readFileSync(resolvedPath, 'utf8');
+    }
+
+    const entries = parseHistory(content);
+    core.info(`Loaded ${entries.length} history entries`);
+    return entries;
+}
+
+/**
+ * Find the latest run recorded for a ref, e.g. to compare a pull request against the default branch
+ */
+export function findLatestEntryForRef(entries: HistoryEntry[], ref: string): HistoryEntry | undefined {
+    return [...entries].reverse().find(entry => entry.ref === ref);
+}
+
+/**
+ * Get the entries recorded for a ref, so pull request runs do not mix into the trend of a branch.
+ * Without a ref, e.g. outside GitHub Actions, every entry is kept.
+ */
+export function getHistoryForRef(entries: HistoryEntry[], ref: string | undefined): HistoryEntry[] {
+    return ref ? entries.filter(entry => entry.ref === ref) : entries;
+}
+
+// Runs that finish together race to push the branch, the losers re-fetch and append again
+const PUSH_ATTEMPTS = 4;
+
+/**
+ * Commit an entry to the history file on the latest state of a branch using a temporary worktree
+ */
+async function commitToBranch(options: HistoryOptions & { branch: string }, line: string): Promise<void> {
+    const worktreeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lhci-history-'));
+
+    try {
+        let branchExists = true;
+        try {
+            await git(['fetch', '--depth=1', 'origin', options.branch]);
+        } catch {
+            branchExists = false;
+        }
+
+        if (branchExists) {
+            await git(['worktree', 'add', '--detach', worktreeDir, 'FETCH_HEAD']);
+        } else {
+            await git(['worktree', 'add', '--detach', worktreeDir]);
+            await git(['checkout', '--orphan', options.branch], worktreeDir);
+            await git(['rm', '-rf', '--quiet', '--ignore-unmatch', '.'], worktreeDir);
+        }
+
+        const historyFile = path.join(worktreeDir, options.filePath);
+        fs.mkdirSync(path.dirname(historyFile), { recursive: true });
+        fs.appendFileSync(historyFile, `${line}\n`);
+
+        await git(['add', options.filePath], worktreeDir);
+        await git([
+            '-c', 'user.name=github-actions[bot]',
+            '-c', 'user.email=41898282+github-actions[bot]@users.noreply.github.com',
+            'commit', '-m', `Update Lighthouse history (run ${process.env.GITHUB_RUN_ID || 'local'})`
+        ], worktreeDir);
+        await git(['push', 'origin', `HEAD:refs/heads/${options.branch}`], worktreeDir);
+    } finally {
+        try {
+            await git(['worktree', 'remove', '--force', worktreeDir]);
+        } catch {
+            fs.rmSync(worktreeDir, { recursive: true, force: true });
+        }
+    }
+}
+
+/**
+ * Append an entry to the history file on a branch, retrying when another run pushed first
+ */
+async function appendToBranch(options: HistoryOptions & { branch: string }, line: string): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await commitToBranch(options, line);
+            return;
+        } catch (error) {
+            if (attempt >= PUSH_ATTEMPTS) {
+                throw error;
+            }
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.info(`Updating history on '${options.branch}' failed, retrying (${attempt}/${PUSH_ATTEMPTS - 1}): ${errorMessage}`);
+            await new Promise(resolve => setTimeout(resolve, 1000 * attempt + Math.random() * 1000));
+        }
+    }
+}
+
+/**
+ * Append the current run to the score history
+ */
+export async function appendHistory(options: HistoryOptions, entry: HistoryEntry): Promise<void> {
+    const line = JSON.stringify(entry);
+
+    if (options.branch) {
+        await appendToBranch({ ...options, branch: options.branch }, line);
+        core.info(`Appended run to ${options.filePath} on branch '${options.branch}'`);
+        return;
+    }
+
+    const resolvedPath = path.resolve(process.cwd(), options.filePath);
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.appendFileSync(resolvedPath, `${line}\n`);
+    core.info(`Appended run to ${resolvedPath}`);
+}
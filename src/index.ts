@@ -2,8 +2,23 @@ import * as glob from 'glob';
 import * as core from '@actions/core';
 import { runLighthouseTests } from './lighthouse';
 import { runPSITests, isPSIAvailable } from './psi';
-import { sendSlackReport } from './slack';
-import { parseInputArray, formatLighthouseResults, validateInputs, LighthouseResult } from './utils';
+import { sendReports } from './reporters';
+import { startSlackProgress, finishSlackProgress, deleteSlackProgress, sendSlackNotice } from './slack';
+import { getNotifyDecision, NotifyOn } from './notify';
+import { parseSlackRoutes, SlackRoute } from './routing';
+import { parseConcurrency } from './scheduler';
+import { getAuthOptions, hasAuthOptions, AuthOptions } from './auth';
+import { runLighthouseFlows, resolveFlowScripts, getFlowName } from './flows';
+import { loadBaselineResults, saveResultsFile } from './baseline';
+import { writeJobSummary } from './summary';
+import { setActionOutputs } from './outputs';
+import { writeJUnitReport } from './junit';
+import { writeSarifReport } from './sarif';
+import { writeDashboard } from './dashboard';
+import { sendPullRequestComment, getPullRequestNumber, getDefaultBranchRef } from './github';
+import { loadHistory, appendHistory, createHistoryEntry, findLatestEntryForRef, getHistoryForRef, HistoryOptions } from './history';
+import { buildAssertionConfig, evaluateAssertions, formatAssertionResult, AssertionConfig, AssertionResult } from './assertions';
+import { parseInputArray, formatLighthouseResults, validateInputs, extractAudits, extractMetrics, LighthouseResult, LighthouseTestFailure, BaselineOptions, HistoryEntry, getWorkflowRunUrl } from './utils';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -19,7 +34,7 @@ async function run(): Promise<void> {
             return;
         }
 
-        const urls = parseInputArray(core.getInput('urls', { required: true }));
+        const urls = parseInputArray(core.getInput('urls'));
         const deviceTypes = parseInputArray(core.getInput('device_types') || 'mobile,desktop');
         const categories = parseInputArray(core.getInput('categories') || 'performance,accessibility,best-practices,seo');
         const slackTitle = core.getInput('slack_title') || 'Lighthouse Test Results';
@@ -35,12 +50,61 @@ async function run(): Promise<void> {
         const locale = core.getInput('locale') || 'en-GB';
         const runsPerUrlInput = core.getInput('runs_per_url') || '1';
         const runsPerUrl = parseInt(runsPerUrlInput);
+        const concurrency = parseConcurrency(core.getInput('concurrency'));
+        const serialPerformance = core.getInput('serial_performance') === 'true';
+        const baselinePath = core.getInput('baseline_path');
+        const regressionThreshold = parseInt(core.getInput('regression_threshold') || '5');
+        const notifyOn = (core.getInput('notify_on') || 'always') as NotifyOn;
+        const historyPath = core.getInput('history_path');
+        const historyOptions: HistoryOptions | undefined = historyPath ? {
+            filePath: historyPath,
+            branch: core.getInput('history_branch') || undefined,
+            size: parseInt(core.getInput('history_size') || '10')
+        } : undefined;
+        const githubToken = core.getInput('github_token');
+        const prComment = core.getInput('pr_comment') === 'true';
         let lighthouseConfig = core.getInput('lighthouse_config');
         
         if (lighthouseConfig === 'ci-optimized') {
             lighthouseConfig = `${__dirname}/../lighthouse-ci.json`;
         }
         
+        let assertionConfig: AssertionConfig;
+        try {
+            assertionConfig = buildAssertionConfig(core.getInput('assertions'), failOnScoreBelow, categories);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.setFailed(`❌ Invalid assertions: ${errorMessage}`);
+            return;
+        }
+
+        let slackRoutes: SlackRoute[];
+        try {
+            slackRoutes = parseSlackRoutes(core.getInput('slack_routes'));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.setFailed(`❌ Invalid slack_routes: ${errorMessage}`);
+            return;
+        }
+
+        let flowScripts: string[];
+        try {
+            flowScripts = resolveFlowScripts(parseInputArray(core.getInput('flows')));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.setFailed(`❌ Invalid flows: ${errorMessage}`);
+            return;
+        }
+
+        let auth: AuthOptions;
+        try {
+            auth = getAuthOptions();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.setFailed(`❌ Invalid authentication inputs: ${errorMessage}`);
+            return;
+        }
+
         // PSI API configuration
         const usePsiApi = core.getInput('use_psi_api') === 'true';
         const psiApiKey = core.getInput('psi_api_key');
@@ -51,6 +115,9 @@ async function run(): Promise<void> {
         core.info(`  - Device types: ${deviceTypes.join(', ')}`);
         core.info(`  - Test categories: ${categories.join(', ')}`);
         core.info(`  - Fail on score below: ${failOnScoreBelow * 100}%`);
+        if (core.getInput('assertions')) {
+            core.info(`  - Assertions: ${assertionConfig.matrix.length} assertion sets`);
+        }
         core.info(`  - Throttling method: ${throttlingMethod}`);
         if (disableCpuThrottling) {
             core.info(`  - CPU throttling: DISABLED (for slow CI runners)`);
@@ -59,16 +126,49 @@ async function run(): Promise<void> {
         }
         core.info(`  - Locale: ${locale}`);
         core.info(`  - Runs per URL: ${runsPerUrl}`);
+        core.info(`  - Concurrency: ${concurrency}${serialPerformance ? ' (performance tests serially)' : ''}`);
         if (lighthouseConfig) {
             core.info(`  - Config file: ${lighthouseConfig}`);
         }
+        if (baselinePath) {
+            core.info(`  - Baseline: ${baselinePath} (regression threshold: ${regressionThreshold} points)`);
+        }
+        if (historyOptions) {
+            core.info(`  - History: ${historyOptions.filePath}${historyOptions.branch ? ` on branch ${historyOptions.branch}` : ''} (last ${historyOptions.size} runs)`);
+        }
+        if (prComment) {
+            core.info(`  - Pull request comment: YES`);
+        }
+        if (notifyOn !== 'always') {
+            core.info(`  - Notify on: ${notifyOn}`);
+        }
+        if (slackRoutes.length > 0) {
+            core.info(`  - Slack routes: ${slackRoutes.length}`);
+        }
+        if (flowScripts.length > 0) {
+            core.info(`  - User flows: ${flowScripts.join(', ')}`);
+        }
+        if (hasAuthOptions(auth)) {
+            const authMethods = [
+                auth.extraHeaders ? `${Object.keys(auth.extraHeaders).length} extra headers` : '',
+                auth.cookies.length > 0 ? `${auth.cookies.length} cookies` : '',
+                auth.loginScript ? `login script ${auth.loginScript}` : ''
+            ].filter(Boolean);
+            core.info(`  - Authentication: ${authMethods.join(', ')}`);
+        }
         if (usePsiApi) {
             core.info(`  - Using PageSpeed Insights API: YES`);
             core.info(`  - PSI Strategy: ${psiStrategy}`);
         }
 
+        if (usePsiApi && hasAuthOptions(auth)) {
+            core.warning('PageSpeed Insights cannot test authenticated pages, using local Lighthouse instead');
+        }
+
         core.info('🔍 Running tests...');
         let lighthouseResults: LighthouseResult[];
+        const failures: LighthouseTestFailure[] = [];
+        const onProgress = await startSlackProgress([...urls, ...flowScripts.map(scriptPath => getFlowName(scriptPath, flowScripts))], deviceTypes, slackTitle);
 
         try {
             if (fs.existsSync('lighthouse-results/example.json')) {
@@ -87,10 +187,15 @@ async function run(): Promise<void> {
                         url: mockResult.url,
                         deviceType: 'mobile',
                         categories,
+                        metrics: extractMetrics(mockResult.audits),
+                        audits: extractAudits(mockResult.audits),
                         reportUrl: 'lighthouse-results/example.html'
                     }
                 ];
-            } else if (usePsiApi && isPSIAvailable(psiApiKey)) {
+            } else if (urls.length === 0) {
+                // Only user flows are tested
+                lighthouseResults = [];
+            } else if (usePsiApi && !hasAuthOptions(auth) && isPSIAvailable(psiApiKey)) {
                 core.info('🌐 Using PageSpeed Insights API for testing...');
                 core.info('This provides more consistent scores that match browser-based tests');
                 
@@ -101,11 +206,14 @@ async function run(): Promise<void> {
                         categories,
                         psiApiKey!,
                         locale,
-                        runsPerUrl
+                        runsPerUrl,
+                        failures,
+                        onProgress
                     );
                 } catch (psiError) {
                     core.warning(`PSI API failed: ${psiError}`);
                     core.info('Falling back to local Lighthouse...');
+                    failures.length = 0;
                     
                     lighthouseResults = await runLighthouseTests(
                         urls,
@@ -118,7 +226,12 @@ async function run(): Promise<void> {
                         runsPerUrl,
                         lighthouseConfig,
                         cpuSlowdownMultiplier,
-                        disableCpuThrottling
+                        disableCpuThrottling,
+                        concurrency,
+                        serialPerformance,
+                        auth,
+                        failures,
+                        onProgress
                     );
                 }
             } else {
@@ -134,8 +247,34 @@ async function run(): Promise<void> {
                     runsPerUrl,
                     lighthouseConfig,
                     cpuSlowdownMultiplier,
-                    disableCpuThrottling
+                    disableCpuThrottling,
+                    concurrency,
+                    serialPerformance,
+                    auth,
+                    failures,
+                    onProgress
+                );
+            }
+
+            if (flowScripts.length > 0) {
+                core.info('🧭 Running user flows...');
+                const flowResults = await runLighthouseFlows(
+                    flowScripts,
+                    deviceTypes,
+                    categories,
+                    chromeFlags,
+                    timeout,
+                    throttlingMethod,
+                    locale,
+                    lighthouseConfig,
+                    cpuSlowdownMultiplier,
+                    disableCpuThrottling,
+                    concurrency,
+                    auth,
+                    failures,
+                    onProgress
                 );
+                lighthouseResults = [...(lighthouseResults || []), ...flowResults];
             }
 
             if (!lighthouseResults || lighthouseResults.length === 0) {
@@ -144,28 +283,169 @@ async function run(): Promise<void> {
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             core.setFailed(`❌ Error running lighthouse tests: ${errorMessage}`);
+            await finishSlackProgress(`❌ Lighthouse tests failed: ${errorMessage}`);
             return;
         }
 
         core.info(`✅ Lighthouse tests completed: ${lighthouseResults.length} results`);
 
+        let baseline: BaselineOptions | undefined;
+        if (baselinePath) {
+            try {
+                baseline = {
+                    results: loadBaselineResults(baselinePath),
+                    regressionThreshold
+                };
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Could not load baseline, scores will be reported without changes: ${errorMessage}`);
+            }
+        }
+
+        let history: HistoryEntry[] = [];
+        if (historyOptions) {
+            try {
+                history = await loadHistory(historyOptions);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Could not load score history: ${errorMessage}`);
+            }
+        }
+
+        // On pull requests without an explicit baseline, compare against the latest default branch run
+        const defaultBranchRef = getDefaultBranchRef();
+        if (!baseline && getPullRequestNumber() && defaultBranchRef) {
+            const defaultBranchEntry = findLatestEntryForRef(history, defaultBranchRef);
+            if (defaultBranchEntry) {
+                core.info(`Comparing against ${defaultBranchRef} run from ${defaultBranchEntry.timestamp}`);
+                baseline = { results: defaultBranchEntry.results, regressionThreshold };
+            }
+        }
+
         core.info('📊 Formatting results for Slack...');
         let formattedResults;
         try {
-            formattedResults = formatLighthouseResults(lighthouseResults);
+            formattedResults = formatLighthouseResults(lighthouseResults, {
+                baseline,
+                history: getHistoryForRef(history, process.env.GITHUB_REF),
+                historySize: historyOptions?.size,
+                failures
+            });
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             core.setFailed(`❌ Error formatting results: ${errorMessage}`);
             return;
         }
 
-        core.info('📤 Sending results to Slack...');
         try {
-            await sendSlackReport(formattedResults, slackTitle);
-            core.info('✅ Results sent to Slack successfully');
+            const resultsFile = saveResultsFile(path.resolve(process.cwd(), 'lighthouse-results'), formattedResults);
+            core.info(`💾 Saved results to ${resultsFile}`);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            core.warning(`⚠️ Failed to send results to Slack: ${errorMessage}`);
+            core.warning(`⚠️ Failed to save results file: ${errorMessage}`);
+        }
+
+        if (core.getInput('html_dashboard') !== 'false') {
+            try {
+                writeDashboard(formattedResults, slackTitle, path.resolve(process.cwd(), 'lighthouse-results'));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to write HTML dashboard: ${errorMessage}`);
+            }
+        }
+
+        if (historyOptions) {
+            try {
+                await appendHistory(historyOptions, createHistoryEntry(lighthouseResults));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to update score history: ${errorMessage}`);
+            }
+        }
+
+        if (formattedResults.summary.regressions && formattedResults.summary.regressions.length > 0) {
+            core.warning(`📉 ${formattedResults.summary.regressions.length} scores dropped by more than ${regressionThreshold} points against the baseline`);
+        }
+
+        const allScores = lighthouseResults.flatMap(result =>
+            result.categories.map(category => category.score)
+        );
+
+        const lowestScore = Math.min(...allScores);
+        core.info(`📉 Lowest score: ${Math.round(lowestScore * 100)}%`);
+
+        core.info('🧪 Evaluating assertions...');
+        const assertionResults: AssertionResult[] = evaluateAssertions(lighthouseResults, assertionConfig);
+        const failedAssertions = assertionResults.filter(result => !result.passed);
+        const failedErrors = failedAssertions.filter(result => result.level === 'error');
+
+        failedAssertions.forEach(result => {
+            if (result.level === 'error') {
+                core.error(`❌ ${formatAssertionResult(result)}`);
+            } else {
+                core.warning(`⚠️ ${formatAssertionResult(result)}`);
+            }
+        });
+
+        // The previous run of the same ref, falling back to the latest recorded run and then the baseline
+        const previousEntry = findLatestEntryForRef(history, process.env.GITHUB_REF || '') || history[history.length - 1];
+        const notifyDecision = getNotifyDecision(
+            notifyOn,
+            lighthouseResults,
+            previousEntry?.results || baseline?.results,
+            assertionResults,
+            assertionConfig,
+            failures,
+            regressionThreshold
+        );
+        core.setOutput('notified', notifyDecision.notify);
+
+        const runUrl = getWorkflowRunUrl();
+        if (notifyDecision.notify) {
+            if (notifyOn !== 'always') {
+                core.info(`🔔 Sending notifications: ${notifyDecision.reason}`);
+            }
+            await sendReports(formattedResults, slackTitle, assertionResults);
+        } else {
+            core.info(`🔕 Skipping notifications (notify_on: ${notifyOn}): ${notifyDecision.reason}`);
+            if (core.getInput('notify_short_summary') === 'true') {
+                try {
+                    await sendSlackNotice(
+                        `✅ *${slackTitle}:* ${lighthouseResults.length} tests, ${notifyDecision.reason}` +
+                        (runUrl ? ` · <${runUrl}|View workflow run>` : '')
+                    );
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    core.warning(`⚠️ Failed to send the Slack summary: ${errorMessage}`);
+                }
+            }
+            // A skipped run leaves nothing in the channel beyond the short summary
+            await deleteSlackProgress();
+        }
+        await finishSlackProgress(
+            `✅ Lighthouse tests finished with ${lighthouseResults.length} results` +
+            (runUrl ? `, see the <${runUrl}|workflow run> for details` : '')
+        );
+
+        if (prComment) {
+            try {
+                if (!githubToken) {
+                    throw new Error('github_token is required for pull request comments');
+                }
+                await sendPullRequestComment(formattedResults, slackTitle, githubToken, assertionResults);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to comment on pull request: ${errorMessage}`);
+            }
+        }
+
+        if (core.getInput('job_summary') !== 'false') {
+            try {
+                await writeJobSummary(formattedResults, slackTitle, assertionResults);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to write job summary: ${errorMessage}`);
+            }
         }
 
         try {
@@ -185,17 +465,39 @@ async function run(): Promise<void> {
             core.warning(`⚠️ Issue with report handling: ${errorMessage}`);
         }
 
-        const allScores = lighthouseResults.flatMap(result =>
-            result.categories.map(category => category.score)
-        );
+        const junitOutput = core.getInput('junit_output');
+        if (junitOutput) {
+            try {
+                writeJUnitReport(formattedResults, assertionResults, junitOutput);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to write JUnit report: ${errorMessage}`);
+            }
+        }
 
-        const lowestScore = Math.min(...allScores);
-        core.info(`📉 Lowest score: ${Math.round(lowestScore * 100)}%`);
+        const sarifOutput = core.getInput('sarif_output');
+        if (sarifOutput) {
+            try {
+                writeSarifReport(path.resolve(process.cwd(), 'lighthouse-results'), sarifOutput);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to write SARIF report: ${errorMessage}`);
+            }
+        }
+
+        try {
+            setActionOutputs(formattedResults, assertionResults, path.resolve(process.cwd(), 'lighthouse-results'));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.warning(`⚠️ Failed to set action outputs: ${errorMessage}`);
+        }
 
-        if (lowestScore < failOnScoreBelow) {
-            core.setFailed(`❌ One or more scores (${Math.round(lowestScore * 100)}%) are below the threshold of ${Math.round(failOnScoreBelow * 100)}%`);
+        if (failedErrors.length > 0) {
+            core.setFailed(`❌ ${failedErrors.length} assertion(s) failed (${failedAssertions.length - failedErrors.length} warnings)`);
+        } else if (failedAssertions.length > 0) {
+            core.info(`✅ All error-level assertions passed (${failedAssertions.length} warnings)`);
         } else {
-            core.info(`✅ All scores are above the threshold of ${Math.round(failOnScoreBelow * 100)}%`);
+            core.info(`✅ All ${assertionResults.length} assertions passed`);
         }
 
         core.info('🎉 Lighthouse CI Slack Reporter action completed successfully');
@@ -0,0 +1,132 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssertionResult, formatAssertionResult } from './assertions';
+import { FormattedLighthouseResults, LighthouseResult, formatScore, getCategoryConfig } from './utils';
+
+interface TestCase {
+    name: string;
+    failure?: string;
+    error?: string;
+    output?: string;
+}
+
+/**
+ * Escape text for use in XML attributes and content
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Create one test case per category and one per audit assertion of a result
+ */
+function createTestCases(result: LighthouseResult, assertionResults: AssertionResult[]): TestCase[] {
+    const forResult = assertionResults.filter(r => r.url === result.url && r.deviceType === result.deviceType);
+
+    const categoryCases = result.categories.map(category => {
+        const key = `categories:${category.id}`;
+        const assertions = forResult.filter(r => r.key === key);
+        const errors = assertions.filter(r => !r.passed && r.level === 'error');
+        const warnings = assertions.filter(r => !r.passed && r.level === 'warn');
+
+        return {
+            name: getCategoryConfig(category.id).title,
+            failure: errors.length > 0 ? errors.map(formatAssertionResult).join('\n') : undefined,
+            output: [`Score: ${formatScore(category.score)}`, ...warnings.map(formatAssertionResult)].join('\n')
+        };
+    });
+
+    const auditCases = forResult
+        .filter(r => !r.key.startsWith('categories:'))
+        .map(assertion => ({
+            name: `${assertion.key} ${assertion.name}`,
+            failure: !assertion.passed && assertion.level === 'error' ? formatAssertionResult(assertion) : undefined,
+            output: !assertion.passed && assertion.level === 'warn' ? formatAssertionResult(assertion) : undefined
+        }));
+
+    return [...categoryCases, ...auditCases];
+}
+
+/**
+ * Render a test suite element
+ */
+function renderTestSuite(name: string, testCases: TestCase[], timestamp: string): string {
+    const failures = testCases.filter(t => t.failure).length;
+    const errors = testCases.filter(t => t.error).length;
+
+    const cases = testCases.map(testCase => {
+        const lines = [`    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(name)}" time="0">`];
+        if (testCase.failure) {
+            lines.push(`      <failure message="${escapeXml(testCase.failure.split('\n')[0])}">${escapeXml(testCase.failure)}</failure>`);
+        }
+        if (testCase.error) {
+            lines.push(`      <error message="${escapeXml(testCase.error.split('\n')[0])}">${escapeXml(testCase.error)}</error>`);
+        }
+        if (testCase.output) {
+            lines.push(`      <system-out>${escapeXml(testCase.output)}</system-out>`);
+        }
+        lines.push('    </testcase>');
+        return lines.join('\n');
+    });
+
+    return [
+        `  <testsuite name="${escapeXml(name)}" tests="${testCases.length}" failures="${failures}" errors="${errors}" skipped="0" timestamp="${timestamp}">`,
+        ...cases,
+        '  </testsuite>'
+    ].join('\n');
+}
+
+/**
+ * Create a JUnit XML report with one test suite per URL/device
+ */
+export function createJUnitReport(results: FormattedLighthouseResults, assertionResults: AssertionResult[] = []): string {
+    const timestamp = new Date().toISOString();
+    const suites: Array<{ name: string; testCases: TestCase[] }> = [];
+
+    results.results.forEach(result => {
+        suites.push({
+            name: `${result.url} (${result.deviceType})`,
+            testCases: createTestCases(result, assertionResults)
+        });
+    });
+
+    (results.failures || []).forEach(failure => {
+        suites.push({
+            name: `${failure.url} (${failure.deviceType})`,
+            testCases: [{ name: 'Lighthouse run', error: failure.error }]
+        });
+    });
+
+    const tests = suites.reduce((sum, suite) => sum + suite.testCases.length, 0);
+    const failures = suites.reduce((sum, suite) => sum + suite.testCases.filter(t => t.failure).length, 0);
+    const errors = suites.reduce((sum, suite) => sum + suite.testCases.filter(t => t.error).length, 0);
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="Lighthouse" tests="${tests}" failures="${failures}" errors="${errors}">`,
+        ...suites.map(suite => renderTestSuite(suite.name, suite.testCases, timestamp)),
+        '</testsuites>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Write the JUnit XML report to a file
+ */
+export function writeJUnitReport(
+    results: FormattedLighthouseResults,
+    assertionResults: AssertionResult[],
+    outputPath: string
+): string {
+    const resolvedPath = path.resolve(process.cwd(), outputPath);
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, createJUnitReport(results, assertionResults));
+    core.info(`JUnit report written to ${resolvedPath}`);
+    return resolvedPath;
+}
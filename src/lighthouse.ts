@@ -1,37 +1,185 @@
 import * as core from '@actions/core';
-import { exec } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as util from 'util';
-import { LighthouseResult, LighthouseCategory } from './utils';
+import type { Config, Flags, Result } from 'lighthouse';
+import type { LaunchedChrome } from 'chrome-launcher';
+import { LighthouseResult, LighthouseCategory, LighthouseTestFailure, ProgressCallback, importModule, extractAudits, averageAudits, extractMetrics, averageMetrics } from './utils';
+import { getDefaultConcurrency, runWithConcurrency } from './scheduler';
+import { AuthOptions, redactSecrets, redactSecretsDeep, runLoginScript, setAuthCookies } from './auth';
+
+export type LighthouseModule = typeof import('lighthouse');
+type ChromeLauncherModule = typeof import('chrome-launcher');
+
+export interface ChromeWorker {
+    chromeFlags: string[];
+    auth: AuthOptions;
+    chromes: Map<string, LaunchedChrome>;
+}
+
+interface LighthouseTestPart {
+    test: number;
+    url: string;
+    deviceType: string;
+    categories: string[];
+    reportSuffix: string;
+}
 
-const execPromise = util.promisify(exec);
+// Additional performance-enhancing Chrome flags for CI
+const CI_CHROME_FLAGS = [
+    '--disable-blink-features=AutomationControlled', // Prevent automation detection overhead
+    '--disable-features=IsolateOrigins,site-per-process', // Reduce process overhead
+    '--disable-web-security', // Skip security checks in CI
+    '--aggressive-cache-discard', // Ensure fresh page loads
+    '--disable-features=BlinkGenPropertyTrees,ImprovedCookieControls,LazyFrameLoading,GlobalMediaControls,DestroyProfileOnBrowserClose,MediaRouter,AcceptCHFrame', // Disable unnecessary features
+    '--enable-features=NetworkService,NetworkServiceInProcess', // Optimize network
+    '--force-color-profile=srgb', // Consistent color profile
+    '--disable-breakpad', // No crash reporting needed
+    '--disable-features=AudioServiceOutOfProcess', // Keep audio in-process
+    '--disable-client-side-phishing-detection', // Skip phishing detection
+    '--disable-component-update', // No component updates
+    '--disable-domain-reliability', // Skip domain reliability
+    '--disable-features=Translate', // No translation needed
+    '--disable-hang-monitor', // No hang detection
+    '--disable-popup-blocking', // No popup blocking
+    '--disable-sync', // No sync needed
+    '--no-pings' // No pings
+];
+
+const DESKTOP_CHROME_FLAGS = [
+    '--disable-features=BackForwardCache',
+    '--disable-features=OptimizationGuideModelDownloading,OptimizationHintsFetching,OptimizationTargetPrediction,OptimizationHints',
+    '--disable-background-media-suspend',
+    '--disable-backgrounding-occluded-windows-new',
+    '--disable-renderer-priority-management',
+    '--disable-features=ScriptStreaming',
+    '--disable-image-animation-resync',
+    '--disable-new-content-rendering-timeout',
+    '--disable-setuid-sandbox'
+];
+
+const MOBILE_CHROME_FLAGS = [
+    '--metrics-recording-only'
+];
 
 /**
- * Run Lighthouse CI for a single URL and device type
+ * Split the chrome_flags input into separate flags, keeping quoted values together
  */
-async function runLighthouseForUrl(
-    url: string,
-    deviceType: string,
-    categories: string[],
-    chromeFlags: string,
-    timeout: number,
-    throttlingMethod: string,
-    locale: string,
-    lighthouseConfig: string | undefined,
-    cpuSlowdownMultiplier: number | undefined,
-    disableCpuThrottling: boolean,
-    maxRetries: number = 2
-): Promise<LighthouseResult> {
-    core.info(`Running Lighthouse for URL: ${url}, Device: ${deviceType}`);
+function parseChromeFlags(chromeFlags: string): string[] {
+    const flags: string[] = [];
+    let current = '';
+    let quote = '';
+
+    for (const char of chromeFlags) {
+        if (quote) {
+            if (char === quote) {
+                quote = '';
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (/\s/.test(char)) {
+            if (current) {
+                flags.push(current);
+                current = '';
+            }
+        } else {
+            current += char;
+        }
+    }
 
-    const outputDir = path.resolve(process.cwd(), 'lighthouse-results');
-    const outputFile = path.join(outputDir, `${encodeURIComponent(url.replace(/[^a-zA-Z0-9]/g, '_'))}-${deviceType}.json`);
-    const htmlOutputFile = path.join(outputDir, `${encodeURIComponent(url.replace(/[^a-zA-Z0-9]/g, '_'))}-${deviceType}.html`);
+    if (current) {
+        flags.push(current);
+    }
+    return flags;
+}
 
-    core.debug(`Output directory: ${outputDir}`);
-    core.debug(`JSON output file: ${outputFile}`);
-    core.debug(`HTML output file: ${htmlOutputFile}`);
+/**
+ * Create a worker that runs its tests one after another on its own Chrome instances
+ */
+export function createChromeWorker(chromeFlags: string, auth: AuthOptions): ChromeWorker {
+    return { chromeFlags: parseChromeFlags(chromeFlags), auth, chromes: new Map() };
+}
+
+/**
+ * Get the worker's Chrome for a device type, launching it and running the login script on first use.
+ * Mobile and desktop use different flags, so a worker keeps at most one instance of each.
+ */
+export async function getWorkerChrome(worker: ChromeWorker, deviceType: string, url: string): Promise<LaunchedChrome> {
+    const existing = worker.chromes.get(deviceType);
+    if (existing) {
+        return existing;
+    }
+
+    const chromeLauncher = await importModule<ChromeLauncherModule>('chrome-launcher');
+    const chrome = await chromeLauncher.launch({
+        chromeFlags: [
+            ...worker.chromeFlags,
+            ...CI_CHROME_FLAGS,
+            ...(deviceType === 'desktop' ? DESKTOP_CHROME_FLAGS : MOBILE_CHROME_FLAGS)
+        ],
+        logLevel: 'silent'
+    });
+    worker.chromes.set(deviceType, chrome);
+
+    try {
+        const response = await fetch(`http://127.0.0.1:${chrome.port}/json/version`, { signal: AbortSignal.timeout(5000) });
+        const version = await response.json();
+        core.info(`🌐 Chrome version: ${version.Browser}`);
+    } catch {
+        core.debug('Could not determine Chrome version');
+    }
+
+    await runLoginScript(chrome.port, worker.auth, { url, deviceType });
+
+    return chrome;
+}
+
+/**
+ * Close the worker's Chrome for a device type, e.g. so that a retry starts from a fresh browser
+ */
+async function closeWorkerChrome(worker: ChromeWorker, deviceType: string): Promise<void> {
+    const chrome = worker.chromes.get(deviceType);
+    worker.chromes.delete(deviceType);
+    if (!chrome) {
+        return;
+    }
+
+    try {
+        await chrome.kill();
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        core.debug(`Failed to close Chrome: ${errorMessage}`);
+    }
+}
+
+/**
+ * Close every Chrome the worker launched
+ */
+export async function closeChromeWorker(worker: ChromeWorker): Promise<void> {
+    for (const deviceType of Array.from(worker.chromes.keys())) {
+        await closeWorkerChrome(worker, deviceType);
+    }
+}
+
+/**
+ * Load a Lighthouse config file, JSON or a JavaScript module with a default export like --config-path accepts
+ */
+export async function loadLighthouseConfig(configPath: string): Promise<Config> {
+    const resolvedPath = path.resolve(process.cwd(), configPath);
+    if (resolvedPath.endsWith('.json')) {
+        return JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+    }
+
+    const configModule = await importModule<{ default: Config }>(`file://${resolvedPath}`);
+    return configModule.default;
+}
+
+/**
+ * Create the lighthouse-results directory if needed and make sure it is writable
+ */
+export function prepareOutputDir(): string {
+    const outputDir = path.resolve(process.cwd(), 'lighthouse-results');
 
     if (!fs.existsSync(outputDir)) {
         try {
@@ -53,136 +201,120 @@ async function runLighthouseForUrl(
         throw new Error(`Output directory is not writable: ${err}`);
     }
 
-    const categoriesArg = categories.join(',');
-
-    // Add additional performance-enhancing Chrome flags for CI
-    const baseAdditionalFlags = [
-        '--disable-blink-features=AutomationControlled', // Prevent automation detection overhead
-        '--disable-features=IsolateOrigins,site-per-process', // Reduce process overhead
-        '--disable-web-security', // Skip security checks in CI
-        '--aggressive-cache-discard', // Ensure fresh page loads
-        '--disable-features=BlinkGenPropertyTrees,ImprovedCookieControls,LazyFrameLoading,GlobalMediaControls,DestroyProfileOnBrowserClose,MediaRouter,AcceptCHFrame', // Disable unnecessary features
-        '--enable-features=NetworkService,NetworkServiceInProcess', // Optimize network
-        '--force-color-profile=srgb', // Consistent color profile
-        '--disable-breakpad', // No crash reporting needed
-        '--disable-features=AudioServiceOutOfProcess', // Keep audio in-process
-        '--disable-client-side-phishing-detection', // Skip phishing detection
-        '--disable-component-update', // No component updates
-        '--disable-domain-reliability', // Skip domain reliability
-        '--disable-features=Translate', // No translation needed
-        '--disable-hang-monitor', // No hang detection
-        '--disable-popup-blocking', // No popup blocking
-        '--disable-sync', // No sync needed
-        '--no-pings' // No pings
-    ];
-    
-    if (deviceType === 'desktop') {
-        baseAdditionalFlags.push('--disable-features=BackForwardCache');
-        baseAdditionalFlags.push('--disable-features=OptimizationGuideModelDownloading,OptimizationHintsFetching,OptimizationTargetPrediction,OptimizationHints');
-        baseAdditionalFlags.push('--disable-background-media-suspend');
-        baseAdditionalFlags.push('--disable-backgrounding-occluded-windows-new');
-        baseAdditionalFlags.push('--disable-renderer-priority-management');
-        baseAdditionalFlags.push('--disable-features=ScriptStreaming');
-        baseAdditionalFlags.push('--disable-image-animation-resync');
-        baseAdditionalFlags.push('--disable-new-content-rendering-timeout');
-        baseAdditionalFlags.push('--disable-setuid-sandbox');
-    } else {
-        baseAdditionalFlags.push('--metrics-recording-only'); // Only for mobile
-    }
-    
-    const additionalFlags = baseAdditionalFlags.join(' ');
-    const enhancedChromeFlags = `${chromeFlags} ${additionalFlags}`;
-    const sanitizedChromeFlags = enhancedChromeFlags.replace(/"/g, '\\"').replace(/;/g, '');
+    return outputDir;
+}
 
-    const effectiveThrottlingMethod = throttlingMethod;
-    let cpuThrottlingArgs = '';
+/**
+ * Build the Lighthouse flags for a device type, emulating its screen and applying its throttling
+ */
+export function createLighthouseFlags(
+    deviceType: string,
+    categories: string[],
+    timeout: number,
+    throttlingMethod: string,
+    locale: string,
+    cpuSlowdownMultiplier: number | undefined,
+    disableCpuThrottling: boolean,
+    extraHeaders?: Record<string, string>
+): Flags {
     const defaultMobileCpuMultiplier = 1;
     let effectiveCpuMultiplier = deviceType === 'mobile' ? defaultMobileCpuMultiplier : 1;
-    
+
     if (disableCpuThrottling) {
-        cpuThrottlingArgs = '--throttling.cpuSlowdownMultiplier=1';
         effectiveCpuMultiplier = 1;
         core.info(`⚡ CPU throttling disabled for ${deviceType} (network throttling: ${throttlingMethod})`);
     } else if (cpuSlowdownMultiplier !== undefined) {
-        cpuThrottlingArgs = `--throttling.cpuSlowdownMultiplier=${cpuSlowdownMultiplier}`;
         effectiveCpuMultiplier = cpuSlowdownMultiplier;
         core.info(`🔧 Using custom CPU slowdown multiplier: ${cpuSlowdownMultiplier}x for ${deviceType}`);
     } else if (deviceType === 'desktop') {
-        cpuThrottlingArgs = '--throttling.cpuSlowdownMultiplier=1';
         effectiveCpuMultiplier = 1;
-    } else if (deviceType === 'mobile') {
-        cpuThrottlingArgs = `--throttling.cpuSlowdownMultiplier=${effectiveCpuMultiplier}`;
     }
-    
+
     core.info(`📊 Lighthouse configuration for ${deviceType}:`);
     core.info(`  - CPU slowdown: ${effectiveCpuMultiplier}x`);
-    core.info(`  - Network throttling: ${deviceType === 'mobile' ? effectiveThrottlingMethod : 'none (desktop)'}`);
+    core.info(`  - Network throttling: ${deviceType === 'mobile' ? throttlingMethod : 'none (desktop)'}`);
     core.info(`  - Screen: ${deviceType === 'mobile' ? '360x640 @2x' : '1350x940 @1x'}`);
     core.info(`  - Chrome flags: Optimized for CI with anti-throttling settings`);
-    
-    let command;
-    
+
+    const flags: Flags = {
+        output: 'json',
+        onlyCategories: categories,
+        extraHeaders,
+        maxWaitForLoad: timeout * 1000,
+        locale: locale as Flags['locale'],
+        logLevel: 'error'
+    };
+
     if (deviceType === 'desktop') {
-        command = [
-            'npx',
-            'lighthouse@latest',
-            `"${url.replace(/"/g, '\\"')}"`,
-            '--output=json,html',
-            `--output-path=${outputFile}`,
-            `--only-categories=${categoriesArg}`,
-            `--chrome-flags="${sanitizedChromeFlags}"`,
-            `--max-wait-for-load=${timeout * 1000}`,
-            '--form-factor=desktop',
-            '--screenEmulation.mobile=false',
-            '--screenEmulation.width=1350',
-            '--screenEmulation.height=940',
-            '--screenEmulation.deviceScaleFactor=1',
-            '--screenEmulation.disabled=false',
-            '--throttling-method=simulate',
-            '--throttling.rttMs=0',
-            '--throttling.throughputKbps=0',
-            '--throttling.requestLatencyMs=0',
-            '--throttling.downloadThroughputKbps=0',
-            '--throttling.uploadThroughputKbps=0',
-            '--throttling.cpuSlowdownMultiplier=1',
-            `--locale=${locale}`,
-            '--quiet',
-            '--no-enable-error-reporting'
-        ].filter(Boolean).join(' ');
+        Object.assign(flags, {
+            formFactor: 'desktop',
+            screenEmulation: { mobile: false, width: 1350, height: 940, deviceScaleFactor: 1, disabled: false },
+            throttlingMethod: 'simulate',
+            throttling: {
+                rttMs: 0,
+                throughputKbps: 0,
+                requestLatencyMs: 0,
+                downloadThroughputKbps: 0,
+                uploadThroughputKbps: 0,
+                cpuSlowdownMultiplier: 1
+            }
+        });
     } else {
-        command = [
-            'npx',
-            'lighthouse@latest',
-            `"${url.replace(/"/g, '\\"')}"`,
-            '--output=json,html',
-            `--output-path=${outputFile}`,
-            `--only-categories=${categoriesArg}`,
-            `--chrome-flags="${sanitizedChromeFlags}"`,
-            `--max-wait-for-load=${timeout * 1000}`,
-            `--throttling-method=${throttlingMethod === 'provided' ? 'provided' : 'devtools'}`,
-            cpuThrottlingArgs,
-            `--locale=${locale}`,
-            '--screenEmulation.mobile=true',
-            '--screenEmulation.width=360',
-            '--screenEmulation.height=640',
-            '--screenEmulation.deviceScaleFactor=2',
-            '--screenEmulation.disabled=false',
-            '--form-factor=mobile',
-            '--emulated-form-factor=mobile',
-            '--quiet',
-            '--no-enable-error-reporting',
-            lighthouseConfig ? `--config-path="${lighthouseConfig}"` : ''
-        ].filter(Boolean).join(' ');
+        Object.assign(flags, {
+            formFactor: 'mobile',
+            screenEmulation: { mobile: true, width: 360, height: 640, deviceScaleFactor: 2, disabled: false },
+            throttlingMethod: throttlingMethod === 'provided' ? 'provided' : 'devtools',
+            throttling: { cpuSlowdownMultiplier: effectiveCpuMultiplier }
+        });
     }
 
-    core.debug(`Executing command: ${command}`);
-    
-    try {
-        const { stdout: chromeVersion } = await execPromise('google-chrome --version || chromium --version || chrome --version || echo "Chrome version unknown"');
-        core.info(`🌐 Chrome version: ${chromeVersion.trim()}`);
-    } catch {
-        core.debug('Could not determine Chrome version');
-    }
+    return flags;
+}
+
+/**
+ * Run Lighthouse for a single URL and device type on the worker's Chrome
+ */
+async function runLighthouseForUrl(
+    worker: ChromeWorker,
+    url: string,
+    deviceType: string,
+    categories: string[],
+    timeout: number,
+    throttlingMethod: string,
+    locale: string,
+    lighthouseConfig: string | undefined,
+    cpuSlowdownMultiplier: number | undefined,
+    disableCpuThrottling: boolean,
+    reportSuffix: string = '',
+    maxRetries: number = 2
+): Promise<LighthouseResult> {
+    core.info(`Running Lighthouse for URL: ${url}, Device: ${deviceType}`);
+
+    const outputDir = prepareOutputDir();
+    // Same names as the Lighthouse CLI uses for multiple outputs, `<output path>.report.<format>`
+    const outputBase = path.join(outputDir, `${encodeURIComponent(url.replace(/[^a-zA-Z0-9]/g, '_'))}-${deviceType}${reportSuffix}`);
+    const outputFile = `${outputBase}.report.json`;
+    const htmlOutputFile = `${outputBase}.report.html`;
+
+    core.debug(`Output directory: ${outputDir}`);
+    core.debug(`JSON output file: ${outputFile}`);
+    core.debug(`HTML output file: ${htmlOutputFile}`);
+
+    const flags = createLighthouseFlags(
+        deviceType,
+        categories,
+        timeout,
+        throttlingMethod,
+        locale,
+        cpuSlowdownMultiplier,
+        disableCpuThrottling,
+        worker.auth.extraHeaders
+    );
+
+    const config = deviceType === 'mobile' && lighthouseConfig ? await loadLighthouseConfig(lighthouseConfig) : undefined;
+    const { default: lighthouse, generateReport } = await importModule<LighthouseModule>('lighthouse');
+
+    core.debug(`Lighthouse flags: ${JSON.stringify(redactSecretsDeep(flags))}`);
 
     let lastError = null;
     let retryDelay = 3000;
@@ -195,94 +327,57 @@ async function runLighthouseForUrl(
         }
 
         try {
-            const { stdout, stderr } = await execPromise(command);
-            core.debug(`Command stdout: ${stdout}`);
-
-            if (stderr) {
-                core.debug(`Command stderr: ${stderr}`);
-            }
-
-            if (!fs.existsSync(outputDir)) {
-                core.warning(`Output directory does not exist after test: ${outputDir}`);
-                continue;
+            const chrome = await getWorkerChrome(worker, deviceType, url);
+            await setAuthCookies(chrome.port, worker.auth, url);
+            const runnerResult = await lighthouse(url, { ...flags, port: chrome.port }, config);
+            if (!runnerResult) {
+                throw new Error('Lighthouse did not return a result');
             }
 
-            const files = fs.readdirSync(outputDir);
-            core.debug(`Files in output directory: ${files.join(', ')}`);
-
-            const baseOutputName = path.basename(outputFile, '.json');
-            const jsonPattern = new RegExp(`${baseOutputName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}.*\\.json$`);
-
-            const jsonFiles = fs.readdirSync(outputDir)
-                .filter(file => jsonPattern.test(file));
-
-            if (jsonFiles.length === 0) {
-                throw new Error(`No JSON output files found matching pattern in ${outputDir}`);
-            }
-
-            jsonFiles.sort((a, b) => {
-                return fs.statSync(path.join(outputDir, b)).mtime.getTime() -
-                    fs.statSync(path.join(outputDir, a)).mtime.getTime();
+            const { lhr } = runnerResult;
+            // The reports and results are built from a copy without the headers and cookies, as the settings are embedded in the reports
+            const reportLhr: Result = redactSecretsDeep({
+                ...lhr,
+                configSettings: { ...lhr.configSettings, extraHeaders: null }
             });
+            fs.writeFileSync(outputFile, generateReport(reportLhr, 'json'));
+            fs.writeFileSync(htmlOutputFile, generateReport(reportLhr, 'html'));
+            core.debug(`Saved Lighthouse reports to ${outputFile} and ${htmlOutputFile}`);
 
-            const newestJsonFile = path.join(outputDir, jsonFiles[0]);
-            core.debug(`Found JSON result file: ${newestJsonFile}`);
-
-            try {
-                const rawResults = fs.readFileSync(newestJsonFile, 'utf8');
-                core.debug(`Raw results file content (first 200 chars): ${rawResults.substring(0, 200)}...`);
-
-                const results = JSON.parse(rawResults);
-
-                if (!results.categories) {
-                    throw new Error(`Invalid Lighthouse results: missing 'categories' property`);
-                }
-
-                const htmlPattern = new RegExp(`${baseOutputName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}.*\\.html$`);
-                const htmlFiles = fs.readdirSync(outputDir)
-                    .filter(file => htmlPattern.test(file));
-
-                let reportUrl = '';
-                if (htmlFiles.length > 0) {
-                    htmlFiles.sort((a, b) => {
-                        return fs.statSync(path.join(outputDir, b)).mtime.getTime() -
-                            fs.statSync(path.join(outputDir, a)).mtime.getTime();
-                    });
-
-                    const newestHtmlFile = path.join(outputDir, htmlFiles[0]);
-                    core.debug(`Found HTML report file: ${newestHtmlFile}`);
-
-                    reportUrl = newestHtmlFile;
-                } else {
-                    core.warning(`No HTML report found for ${url} on ${deviceType}`);
-                }
-
-                core.info(`Successfully ran Lighthouse for URL: ${url}, Device: ${deviceType}`);
-
-                const lighthouseCategories: LighthouseCategory[] = Object.entries(results.categories).map(
-                    ([id, category]: [string, any]) => ({
-                        id,
-                        title: category.title,
-                        score: category.score
-                    })
-                );
+            if (reportLhr.runtimeError) {
+                throw new Error(`Lighthouse runtime error ${reportLhr.runtimeError.code}: ${reportLhr.runtimeError.message}`);
+            }
 
-                return {
-                    url,
-                    deviceType,
-                    categories: lighthouseCategories,
-                    reportUrl
-                };
-            } catch (parseError) {
-                const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
-                core.error(`Failed to parse Lighthouse results: ${errorMessage}`);
-                throw new Error(`Failed to parse Lighthouse results: ${errorMessage}`);
+            if (!reportLhr.categories) {
+                throw new Error(`Invalid Lighthouse results: missing 'categories' property`);
             }
+
+            core.info(`Successfully ran Lighthouse for URL: ${url}, Device: ${deviceType}`);
+
+            const lighthouseCategories: LighthouseCategory[] = Object.entries(reportLhr.categories).map(
+                ([id, category]) => ({
+                    id,
+                    title: category.title,
+                    score: category.score as number
+                })
+            );
+
+            return {
+                url,
+                deviceType,
+                categories: lighthouseCategories,
+                metrics: extractMetrics(reportLhr.audits),
+                audits: extractAudits(reportLhr.audits),
+                reportUrl: htmlOutputFile
+            };
         } catch (error) {
             lastError = error;
             const errorMessage = error instanceof Error ? error.message : String(error);
             core.warning(`Attempt ${attempt + 1} failed: ${errorMessage}`);
 
+            // Start the next attempt from a fresh browser in case this one crashed or hung
+            await closeWorkerChrome(worker, deviceType);
+
             if (attempt < maxRetries) {
                 continue;
             }
@@ -293,9 +388,6 @@ async function runLighthouseForUrl(
     if (lastError) {
         if (lastError instanceof Error) {
             core.error(lastError.message);
-            if ('stderr' in lastError) {
-                core.error(`stderr: ${(lastError as any).stderr}`);
-            }
         } else {
             core.error(String(lastError));
         }
@@ -348,12 +440,41 @@ function averageLighthouseResults(results: LighthouseResult[]): LighthouseResult
         url: results[0].url,
         deviceType: results[0].deviceType,
         categories: averagedCategories,
+        metrics: averageMetrics(results),
+        audits: averageAudits(results),
+        runScores: categoryScores,
         reportUrl: results[0].reportUrl
     };
 }
 
 /**
- * Run Lighthouse tests for all URLs and device types
+ * Merge the results of the parts a test was split into, keeping the categories in the configured order
+ */
+function mergeLighthouseResults(results: LighthouseResult[], categories: string[]): LighthouseResult {
+    if (results.length === 1) {
+        return results[0];
+    }
+
+    return {
+        url: results[0].url,
+        deviceType: results[0].deviceType,
+        categories: results
+            .flatMap(result => result.categories)
+            .sort((a, b) => categories.indexOf(a.id) - categories.indexOf(b.id)),
+        metrics: Object.assign({}, ...results.map(result => result.metrics)),
+        audits: Object.assign({}, ...results.map(result => result.audits)),
+        runScores: results.some(result => result.runScores)
+            ? Object.assign({}, ...results.map(result => result.runScores))
+            : undefined,
+        reportUrl: (results.find(result => result.categories.some(category => category.id === 'performance')) || results[0]).reportUrl
+    };
+}
+
+/**
+ * Run Lighthouse tests for all URLs and device types.
+ * Tests are scheduled over `concurrency` Chrome workers and the results keep the order of the input URLs.
+ * With `serialPerformance` the other categories run in parallel first, then the performance category runs
+ * one test at a time with no other Chrome competing for the CPU.
  */
 export async function runLighthouseTests(
     urls: string[],
@@ -366,85 +487,140 @@ export async function runLighthouseTests(
     runsPerUrl: number = 1,
     lighthouseConfig?: string,
     cpuSlowdownMultiplier?: number,
-    disableCpuThrottling: boolean = false
+    disableCpuThrottling: boolean = false,
+    concurrency: number = getDefaultConcurrency(),
+    serialPerformance: boolean = false,
+    auth: AuthOptions = { cookies: [] },
+    failures: LighthouseTestFailure[] = [],
+    onProgress?: ProgressCallback
 ): Promise<LighthouseResult[]> {
-    const results: LighthouseResult[] = [];
-    const errors: Error[] = [];
-
     core.info(`Starting Lighthouse tests for ${urls.length} URLs on ${deviceTypes.length} device types`);
     if (runsPerUrl > 1) {
         core.info(`Will run ${runsPerUrl} tests per URL/device and average the results`);
     }
 
-    const sanitizedChromeFlags = chromeFlags.replace(/"/g, '\\"');
-
-    const BATCH_SIZE = 3;
-
-    for (let i = 0; i < urls.length; i += BATCH_SIZE) {
-        const urlBatch = urls.slice(i, i + BATCH_SIZE);
-
-        const batchPromises = urlBatch.flatMap(url =>
-            deviceTypes.map(async (deviceType) => {
-                const runResults: LighthouseResult[] = [];
-                
-                for (let run = 1; run <= runsPerUrl; run++) {
-                    try {
-                        if (runsPerUrl > 1) {
-                            core.info(`Testing ${url} on ${deviceType} (run ${run}/${runsPerUrl})...`);
-                        } else {
-                            core.info(`Testing ${url} on ${deviceType}...`);
-                        }
-                        
-                        const result = await runLighthouseForUrl(
-                            url, 
-                            deviceType, 
-                            categories, 
-                            sanitizedChromeFlags, 
-                            timeout,
-                            throttlingMethod,
-                            locale,
-                            lighthouseConfig,
-                            cpuSlowdownMultiplier,
-                            disableCpuThrottling,
-                            2
-                        );
-                        runResults.push(result);
-                        
-                        if (runsPerUrl > 1) {
-                            core.info(`✅ Completed run ${run}/${runsPerUrl} for ${url} on ${deviceType}`);
-                        }
-                    } catch (error) {
-                        const errorMessage = error instanceof Error ? error.message : String(error);
-                        core.warning(`Failed run ${run}/${runsPerUrl} for ${url} on ${deviceType}: ${errorMessage}`);
-                        if (run === runsPerUrl && runResults.length === 0) {
-                            errors.push(error instanceof Error ? error : new Error(String(error)));
-                            return error;
-                        }
-                    }
-                }
-                
-                if (runResults.length > 0) {
-                    const averagedResult = averageLighthouseResults(runResults);
-                    results.push(averagedResult);
-                    core.info(`✅ Completed test for ${url} on ${deviceType} (averaged from ${runResults.length} runs)`);
-                    return null;
+    const tests = urls.flatMap(url => deviceTypes.map(deviceType => ({ url, deviceType })));
+    const splitPerformance = serialPerformance && categories.includes('performance');
+    const otherCategories = categories.filter(category => category !== 'performance');
+
+    const serialParts: LighthouseTestPart[] = [];
+    const parallelParts: LighthouseTestPart[] = [];
+    tests.forEach(({ url, deviceType }, test) => {
+        if (!splitPerformance) {
+            parallelParts.push({ test, url, deviceType, categories, reportSuffix: '' });
+            return;
+        }
+        serialParts.push({ test, url, deviceType, categories: ['performance'], reportSuffix: '' });
+        if (otherCategories.length > 0) {
+            parallelParts.push({ test, url, deviceType, categories: otherCategories, reportSuffix: `-${otherCategories.join('-')}` });
+        }
+    });
+
+    core.info(`Running up to ${concurrency} tests in parallel${splitPerformance ? ' (performance tests one at a time afterwards)' : ''}`);
+
+    const partResults: LighthouseResult[][] = tests.map(() => []);
+    const remainingParts = tests.map(() => (splitPerformance && otherCategories.length > 0 ? 2 : 1));
+    const testErrors: (Error | undefined)[] = tests.map(() => undefined);
+    const results: (LighthouseResult | undefined)[] = tests.map(() => undefined);
+
+    const finishTest = (test: number): void => {
+        const { url, deviceType } = tests[test];
+        // When only one part of a split test failed, the categories of the other part are still reported
+        if (partResults[test].length > 0) {
+            results[test] = mergeLighthouseResults(partResults[test], categories);
+        }
+        if (testErrors[test]) {
+            onProgress?.({ url, deviceType, status: 'failed' });
+            return;
+        }
+
+        onProgress?.({ url, deviceType, status: 'done' });
+        core.info(`✅ Completed test for ${url} on ${deviceType}`);
+    };
+
+    const runPart = async (worker: ChromeWorker, part: LighthouseTestPart): Promise<void> => {
+        const { test, url, deviceType } = part;
+        const runResults: LighthouseResult[] = [];
+        const label = splitPerformance ? `${url} on ${deviceType} [${part.categories.join(', ')}]` : `${url} on ${deviceType}`;
+
+        for (let run = 1; run <= runsPerUrl; run++) {
+            onProgress?.({ url, deviceType, status: 'running', run, totalRuns: runsPerUrl });
+            try {
+                if (runsPerUrl > 1) {
+                    core.info(`Testing ${label} (run ${run}/${runsPerUrl})...`);
                 } else {
-                    return new Error(`All runs failed for ${url} on ${deviceType}`);
+                    core.info(`Testing ${label}...`);
                 }
-            })
-        );
 
-        await Promise.all(batchPromises);
-    }
+                const result = await runLighthouseForUrl(
+                    worker,
+                    url,
+                    deviceType,
+                    part.categories,
+                    timeout,
+                    throttlingMethod,
+                    locale,
+                    lighthouseConfig,
+                    cpuSlowdownMultiplier,
+                    disableCpuThrottling,
+                    part.reportSuffix,
+                    2
+                );
+                runResults.push(result);
 
-    core.info(`Completed Lighthouse tests: ${results.length} successful, ${errors.length} failed`);
+                if (runsPerUrl > 1) {
+                    core.info(`✅ Completed run ${run}/${runsPerUrl} for ${label}`);
+                }
+            } catch (error) {
+                const errorMessage = redactSecrets(error instanceof Error ? error.message : String(error));
+                core.warning(`Failed run ${run}/${runsPerUrl} for ${label}: ${errorMessage}`);
+                if (run === runsPerUrl && runResults.length === 0) {
+                    testErrors[test] = new Error(splitPerformance ? `${part.categories.join(', ')}: ${errorMessage}` : errorMessage);
+                }
+            }
+        }
 
-    if (results.length === 0) {
+        if (runResults.length > 0) {
+            partResults[test].push(averageLighthouseResults(runResults));
+            if (runsPerUrl > 1) {
+                core.info(`Averaged ${label} from ${runResults.length} runs`);
+            }
+        }
+
+        remainingParts[test]--;
+        if (remainingParts[test] === 0) {
+            finishTest(test);
+        }
+    };
+
+    const lane = {
+        create: () => createChromeWorker(chromeFlags, auth),
+        run: runPart,
+        dispose: closeChromeWorker
+    };
+
+    // The performance parts only start once the parallel parts are done, so nothing else loads the CPU meanwhile
+    await runWithConcurrency(parallelParts, concurrency, lane);
+    await runWithConcurrency(serialParts, 1, lane);
+
+    const errors: Error[] = [];
+    tests.forEach(({ url, deviceType }, test) => {
+        const error = testErrors[test];
+        if (error) {
+            errors.push(error);
+            failures.push({ url, deviceType, error: error.message });
+        }
+    });
+    const orderedResults = results.filter((result): result is LighthouseResult => result !== undefined);
+
+    core.info(`Completed Lighthouse tests: ${tests.length - errors.length} successful, ${errors.length} failed`);
+
+    if (orderedResults.length === 0) {
         if (errors.length > 0) {
             throw new Error(`All Lighthouse tests failed: ${errors.map(e => e.message).join(', ')}`);
         }
         throw new Error('No Lighthouse tests were completed successfully');
     }
 
-    return results;
+    return orderedResults;
 }
@@ -0,0 +1,94 @@
+import { AssertionConfig, AssertionResult, evaluateAssertions } from './assertions';
+import { LighthouseResult, LighthouseTestFailure, calculateScoresByUrlAndDevice, findRegressions } from './utils';
+
+export type NotifyOn = 'always' | 'failure' | 'regression' | 'change';
+
+export interface NotifyDecision {
+    notify: boolean;
+    reason: string;
+}
+
+/**
+ * Get the keys of the failing category assertions, which can be evaluated on stored runs that only keep scores
+ */
+function getFailingCategoryKeys(assertionResults: AssertionResult[]): Set<string> {
+    return new Set(assertionResults
+        .filter(result => !result.passed && result.level === 'error' && result.key.startsWith('categories:'))
+        .map(result => `${result.url}|${result.deviceType}|${result.key}`));
+}
+
+/**
+ * Find the URL/device combinations tested in only one of the two runs
+ */
+function getChangedTests(current: LighthouseResult[], previous: LighthouseResult[]): string[] {
+    const currentKeys = new Set(current.map(result => `${result.url} (${result.deviceType})`));
+    const previousKeys = new Set(previous.map(result => `${result.url} (${result.deviceType})`));
+    return [
+        ...Array.from(currentKeys).filter(key => !previousKeys.has(key)),
+        ...Array.from(previousKeys).filter(key => !currentKeys.has(key))
+    ];
+}
+
+/**
+ * Decide whether the results are worth a notification under the notify_on mode.
+ * `failure` notifies on failed assertions or tests, `regression` also on scores that dropped against the
+ * previous run, and `change` on any change in pass/fail status, tested URLs or scores beyond the threshold.
+ */
+export function getNotifyDecision(
+    mode: NotifyOn,
+    results: LighthouseResult[],
+    previousResults: LighthouseResult[] | undefined,
+    assertionResults: AssertionResult[],
+    assertionConfig: AssertionConfig,
+    failures: LighthouseTestFailure[],
+    regressionThreshold: number
+): NotifyDecision {
+    if (mode === 'always') {
+        return { notify: true, reason: 'notify_on is always' };
+    }
+
+    const failedAssertions = assertionResults.filter(result => !result.passed && result.level === 'error').length;
+    const failed = failedAssertions > 0 || failures.length > 0;
+    if (mode === 'failure') {
+        return failed
+            ? { notify: true, reason: `${failedAssertions} failed assertions and ${failures.length} failed tests` }
+            : { notify: false, reason: 'all assertions and tests passed' };
+    }
+
+    if (!previousResults || previousResults.length === 0) {
+        return { notify: true, reason: 'no previous run to compare with' };
+    }
+
+    const regressions = findRegressions(results, calculateScoresByUrlAndDevice(previousResults), regressionThreshold);
+    if (mode === 'regression') {
+        if (failed) {
+            return { notify: true, reason: `${failedAssertions} failed assertions and ${failures.length} failed tests` };
+        }
+        return regressions.length > 0
+            ? { notify: true, reason: `${regressions.length} scores dropped against the previous run` }
+            : { notify: false, reason: 'no failures or regressions against the previous run' };
+    }
+
+    const changedTests = getChangedTests(results, previousResults);
+    if (changedTests.length > 0) {
+        return { notify: true, reason: `tested URLs changed: ${changedTests.join(', ')}` };
+    }
+
+    const currentFailing = getFailingCategoryKeys(assertionResults);
+    const previousFailing = getFailingCategoryKeys(evaluateAssertions(previousResults, assertionConfig));
+    const statusChanged = currentFailing.size !== previousFailing.size ||
+        Array.from(currentFailing).some(key => !previousFailing.has(key));
+    if (statusChanged) {
+        return { notify: true, reason: `failing assertions changed from ${previousFailing.size} to ${currentFailing.size}` };
+    }
+
+    const improvements = findRegressions(previousResults, calculateScoresByUrlAndDevice(results), regressionThreshold);
+    if (regressions.length > 0 || improvements.length > 0) {
+        return {
+            notify: true,
+            reason: `${regressions.length} scores dropped and ${improvements.length} improved against the previous run`
+        };
+    }
+
+    return { notify: false, reason: 'nothing changed since the previous run' };
+}
@@ -0,0 +1,68 @@
+import * as core from '@actions/core';
+import { AssertionResult } from './assertions';
+import { FormattedLighthouseResults } from './utils';
+
+/**
+ * Convert a record of 0-1 scores to rounded 0-100 scores
+ */
+function toPercentages(scores: Record<string, number>): Record<string, number> {
+    const percentages: Record<string, number> = {};
+    for (const [category, score] of Object.entries(scores)) {
+        percentages[category] = Math.round(score * 100);
+    }
+    return percentages;
+}
+
+/**
+ * Get the URL/device pairs that failed an error-level assertion or could not be tested
+ */
+function getFailedTests(
+    results: FormattedLighthouseResults,
+    assertionResults: AssertionResult[]
+): Array<{ url: string; deviceType: string }> {
+    const failed = new Map<string, { url: string; deviceType: string }>();
+
+    assertionResults
+        .filter(result => !result.passed && result.level === 'error')
+        .forEach(result => failed.set(`${result.url}|${result.deviceType}`, { url: result.url, deviceType: result.deviceType }));
+
+    (results.failures || []).forEach(failure =>
+        failed.set(`${failure.url}|${failure.deviceType}`, { url: failure.url, deviceType: failure.deviceType })
+    );
+
+    return [...failed.values()];
+}
+
+/**
+ * Publish the results as step outputs so that later workflow steps can react to them.
+ * Scores are 0-100 to match `fail_on_score_below`.
+ */
+export function setActionOutputs(
+    results: FormattedLighthouseResults,
+    assertionResults: AssertionResult[],
+    resultsDir: string
+): void {
+    const averageScores = toPercentages(results.summary.averageScores);
+    const minScores = toPercentages(results.summary.minScores);
+    const failedTests = getFailedTests(results, assertionResults);
+    // A URL that could not be tested fails the run just like a failed assertion, matching failed_urls
+    const passed = failedTests.length === 0;
+    const lowestScore = Object.values(minScores).length > 0 ? Math.min(...Object.values(minScores)) : 0;
+
+    core.setOutput('summary', JSON.stringify(results.summary));
+    core.setOutput('average_scores', JSON.stringify(averageScores));
+    core.setOutput('min_scores', JSON.stringify(minScores));
+    core.setOutput('passed', passed);
+    core.setOutput('lowest_score', lowestScore);
+    core.setOutput('failed_urls', JSON.stringify(failedTests));
+    core.setOutput('results_path', resultsDir);
+
+    for (const [category, score] of Object.entries(averageScores)) {
+        core.setOutput(`average_${category.replace(/-/g, '_')}`, score);
+    }
+    for (const [category, score] of Object.entries(minScores)) {
+        core.setOutput(`min_${category.replace(/-/g, '_')}`, score);
+    }
+
+    core.debug(`Set action outputs: passed=${passed}, lowest_score=${lowestScore}, failed_urls=${failedTests.length}`);
+}
@@ -1,7 +1,7 @@
 import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
-import { LighthouseResult, LighthouseCategory } from './utils';
+import { LighthouseResult, LighthouseCategory, LighthouseTestFailure, ProgressCallback, extractAudits, averageAudits, extractMetrics, averageMetrics } from './utils';
 
 const PSI_API_URL = 'https://www.googleapis.com/pagespeedonline/v5/runPagespeed';
 
@@ -170,6 +170,8 @@ async function runPSITest(
                 url: url,
                 deviceType: deviceType,
                 categories: extractCategories(data.lighthouseResult),
+                metrics: extractMetrics(data.lighthouseResult.audits),
+                audits: extractAudits(data.lighthouseResult.audits),
                 reportUrl: `https://pagespeed.web.dev/report?url=${encodeURIComponent(url)}`
             };
             
@@ -236,6 +238,9 @@ function averagePSIResults(results: LighthouseResult[]): LighthouseResult {
         url: results[0].url,
         deviceType: results[0].deviceType,
         categories: averagedCategories,
+        metrics: averageMetrics(results),
+        audits: averageAudits(results),
+        runScores: categoryScores,
         reportUrl: results[0].reportUrl
     };
 }
@@ -249,7 +254,9 @@ export async function runPSITests(
     categories: string[],
     apiKey: string,
     locale: string = 'en-GB',
-    runsPerUrl: number = 1
+    runsPerUrl: number = 1,
+    failures: LighthouseTestFailure[] = [],
+    onProgress?: ProgressCallback
 ): Promise<LighthouseResult[]> {
     const results: LighthouseResult[] = [];
     const errors: Error[] = [];
@@ -270,6 +277,7 @@ export async function runPSITests(
             const runResults: LighthouseResult[] = [];
             
             for (let run = 1; run <= runsPerUrl; run++) {
+                onProgress?.({ url, deviceType, status: 'running', run, totalRuns: runsPerUrl });
                 try {
                     if (runsPerUrl > 1) {
                         core.info(`Testing ${url} on ${deviceType} (run ${run}/${runsPerUrl})...`);
@@ -298,6 +306,8 @@ export async function runPSITests(
                     
                     if (run === runsPerUrl && runResults.length === 0) {
                         errors.push(error instanceof Error ? error : new Error(String(error)));
+                        failures.push({ url, deviceType, error: errorMessage });
+                        onProgress?.({ url, deviceType, status: 'failed' });
                     }
                 }
             }
@@ -305,6 +315,7 @@ export async function runPSITests(
             if (runResults.length > 0) {
                 const averagedResult = averagePSIResults(runResults);
                 results.push(averagedResult);
+                onProgress?.({ url, deviceType, status: 'done' });
                 
                 // Save averaged results to file if multiple runs
                 if (runsPerUrl > 1) {
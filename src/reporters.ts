@@ -0,0 +1,66 @@
+import * as core from '@actions/core';
+import { AssertionResult } from './assertions';
+import { sendDiscordReport } from './discord';
+import { sendSlackReport } from './slack';
+import { sendTeamsReport } from './teams';
+import { FormattedLighthouseResults } from './utils';
+import { sendWebhookReport } from './webhook';
+
+export interface Reporter {
+    name: string;
+    isConfigured(): boolean;
+    send(results: FormattedLighthouseResults, title: string, assertionResults: AssertionResult[]): Promise<void>;
+}
+
+/**
+ * Chat reporters in the order they are sent; every configured one receives the results
+ */
+export const reporters: Reporter[] = [
+    {
+        name: 'Slack',
+        isConfigured: () => !!core.getInput('slack_webhook_url') || !!core.getInput('slack_token') || !!core.getInput('slack_routes'),
+        send: sendSlackReport
+    },
+    {
+        name: 'Teams',
+        isConfigured: () => !!core.getInput('teams_webhook_url'),
+        send: sendTeamsReport
+    },
+    {
+        name: 'Discord',
+        isConfigured: () => !!core.getInput('discord_webhook_url'),
+        send: sendDiscordReport
+    },
+    {
+        name: 'webhook',
+        isConfigured: () => !!core.getInput('webhook_url'),
+        send: sendWebhookReport
+    }
+];
+
+/**
+ * Send the results to every configured reporter.
+ * A failing reporter does not stop the others, it is reported as a warning.
+ */
+export async function sendReports(
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[] = []
+): Promise<void> {
+    const configured = reporters.filter(reporter => reporter.isConfigured());
+    if (configured.length === 0) {
+        core.warning('No reporter is configured, skipping notifications');
+        return;
+    }
+
+    for (const reporter of configured) {
+        core.info(`📤 Sending results to ${reporter.name}...`);
+        try {
+            await reporter.send(results, title, assertionResults);
+            core.info(`✅ Results sent to ${reporter.name} successfully`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.warning(`⚠️ Failed to send results to ${reporter.name}: ${errorMessage}`);
+        }
+    }
+}
@@ -0,0 +1,145 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LighthouseMetric, extractMetrics } from './utils';
+
+export interface AuditDetail {
+    id: string;
+    title: string;
+    score: number;
+    category?: string;
+    displayValue?: string;
+    savingsMs?: number;
+    savingsBytes?: number;
+}
+
+export interface ReportDetails {
+    failingAudits: AuditDetail[];
+    opportunities: AuditDetail[];
+    metrics: Record<string, LighthouseMetric>;
+}
+
+/**
+ * Read the Lighthouse reports (local or PSI) saved in the results directory
+ */
+export function readLighthouseReports(resultsDir: string): any[] {
+    if (!fs.existsSync(resultsDir)) {
+        return [];
+    }
+
+    const reports: any[] = [];
+    fs.readdirSync(resultsDir)
+        .filter(file => file.endsWith('.json'))
+        .forEach(file => {
+            try {
+                const data = JSON.parse(fs.readFileSync(path.join(resultsDir, file), 'utf8'));
+                const lhr = data?.lighthouseResult || data;
+                if (lhr?.audits && lhr?.categories && !Array.isArray(lhr.categories)) {
+                    reports.push(lhr);
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.debug(`Skipping ${file}: ${errorMessage}`);
+            }
+        });
+
+    return reports;
+}
+
+/**
+ * Get the URL a Lighthouse report was requested for
+ */
+export function getReportUrl(lhr: any): string {
+    return lhr.requestedUrl || lhr.finalDisplayedUrl || lhr.finalUrl;
+}
+
+/**
+ * Get the device type a Lighthouse report was run with
+ */
+export function getReportDeviceType(lhr: any): string {
+    return lhr.configSettings?.formFactor === 'desktop' ? 'desktop' : 'mobile';
+}
+
+/**
+ * Find the most recent report for a URL and device. With serial_performance a test is split over two reports,
+ * so every category is taken from the most recent report that has it, together with the audits it refers to.
+ */
+export function findLighthouseReport(reports: any[], url: string, deviceType: string): any | undefined {
+    const matching = reports
+        .filter(lhr => getReportUrl(lhr) === url && getReportDeviceType(lhr) === deviceType)
+        .sort((a, b) => String(b.fetchTime || '').localeCompare(String(a.fetchTime || '')));
+    if (matching.length <= 1) {
+        return matching[0];
+    }
+
+    const categories: Record<string, any> = {};
+    const audits: Record<string, any> = {};
+    matching.forEach(lhr => {
+        Object.entries<any>(lhr.categories).forEach(([categoryId, category]) => {
+            if (categories[categoryId]) {
+                return;
+            }
+            categories[categoryId] = category;
+            (category.auditRefs || []).forEach((auditRef: { id: string }) => {
+                audits[auditRef.id] = audits[auditRef.id] || lhr.audits[auditRef.id];
+            });
+        });
+    });
+
+    return { ...matching[0], categories, audits };
+}
+
+/**
+ * Collect the most impactful failing audits, the largest opportunities and the metrics of a report
+ */
+export function getReportDetails(lhr: any, limit: number = 5): ReportDetails {
+    const audits: Record<string, any> = lhr.audits || {};
+    const failingAudits: Array<{ audit: AuditDetail; impact: number }> = [];
+    const seen = new Set<string>();
+
+    for (const [categoryId, category] of Object.entries<any>(lhr.categories || {})) {
+        (category.auditRefs || []).forEach((auditRef: { id: string; weight: number; group?: string }) => {
+            const audit = audits[auditRef.id];
+            if (!audit || auditRef.group === 'metrics' || seen.has(auditRef.id) || auditRef.weight <= 0) {
+                return;
+            }
+            if (typeof audit.score !== 'number' || audit.score >= 1) {
+                return;
+            }
+
+            seen.add(auditRef.id);
+            failingAudits.push({
+                audit: {
+                    id: audit.id,
+                    title: audit.title,
+                    score: audit.score,
+                    category: category.title || categoryId,
+                    displayValue: audit.displayValue
+                },
+                impact: auditRef.weight * (1 - audit.score)
+            });
+        });
+    }
+
+    const opportunities = Object.values<any>(audits)
+        .filter(audit => audit?.details?.type === 'opportunity' && audit.details.overallSavingsMs > 0)
+        .map(audit => ({
+            id: audit.id,
+            title: audit.title,
+            score: typeof audit.score === 'number' ? audit.score : 0,
+            displayValue: audit.displayValue,
+            savingsMs: audit.details.overallSavingsMs,
+            savingsBytes: audit.details.overallSavingsBytes
+        }))
+        .sort((a, b) => b.savingsMs - a.savingsMs)
+        .slice(0, limit);
+
+    return {
+        failingAudits: failingAudits
+            .sort((a, b) => b.impact - a.impact)
+            .slice(0, limit)
+            .map(({ audit }) => audit),
+        opportunities,
+        metrics: extractMetrics(audits)
+    };
+}
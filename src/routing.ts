@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import { AssertionResult } from './assertions';
+import { FormattedLighthouseResults, filterFormattedResults, matchesUrlGlob } from './utils';
+
+export type RouteState = 'pass' | 'fail' | 'regression';
+
+export interface SlackRoute {
+    urls: string[];
+    devices: string[];
+    when: RouteState[];
+    channel?: string;
+    webhookUrl?: string;
+    title?: string;
+}
+
+export interface RoutedResults {
+    results: FormattedLighthouseResults;
+    assertionResults: AssertionResult[];
+}
+
+const ROUTE_STATES: RouteState[] = ['pass', 'fail', 'regression'];
+const DEVICE_TYPES = ['mobile', 'desktop'];
+
+/**
+ * Read a route field that may be a single string or a list of strings
+ */
+function toList(value: unknown, field: string, index: number): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    const list = Array.isArray(value) ? value : [value];
+    if (list.some(item => typeof item !== 'string')) {
+        throw new Error(`Invalid '${field}' in Slack route ${index + 1}: expected a string or a list of strings`);
+    }
+    return list;
+}
+
+/**
+ * Parse the Slack routes, given as inline JSON or as a path to a JSON file with an array of rules
+ */
+export function parseSlackRoutes(raw: string): SlackRoute[] {
+    const trimmed = raw.trim();
+    if (!trimmed) {
+        return [];
+    }
+
+    let content = trimmed;
+    if (!trimmed.startsWith('[')) {
+        if (!fs.existsSync(trimmed)) {
+            throw new Error(`Slack routes file not found: ${trimmed}`);
+        }
+        content = fs.readFileSync(trimmed, 'utf8');
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse Slack routes JSON: ${errorMessage}`);
+    }
+
+    if (!Array.isArray(parsed)) {
+        throw new Error('Slack routes must be a JSON array of rules');
+    }
+
+    return parsed.map((rule: any, index: number) => {
+        if (!rule || typeof rule !== 'object') {
+            throw new Error(`Invalid Slack route ${index + 1}: expected an object`);
+        }
+        if (!rule.channel && !rule.webhook_url) {
+            throw new Error(`Slack route ${index + 1} needs a 'channel' or a 'webhook_url'`);
+        }
+
+        const devices = toList(rule.devices, 'devices', index);
+        const invalidDevice = devices.find(device => !DEVICE_TYPES.includes(device));
+        if (invalidDevice) {
+            throw new Error(`Invalid device '${invalidDevice}' in Slack route ${index + 1}. Must be 'mobile' or 'desktop'`);
+        }
+
+        const when = toList(rule.when, 'when', index);
+        const invalidState = when.find(state => !ROUTE_STATES.includes(state as RouteState));
+        if (invalidState) {
+            throw new Error(`Invalid state '${invalidState}' in Slack route ${index + 1}. Must be one of ${ROUTE_STATES.join(', ')}`);
+        }
+
+        return {
+            urls: toList(rule.urls, 'urls', index),
+            devices,
+            when: when as RouteState[],
+            channel: rule.channel,
+            webhookUrl: rule.webhook_url,
+            title: rule.title
+        };
+    });
+}
+
+/**
+ * Get the states of a URL/device: `fail` when it failed an error-level assertion or could not be tested,
+ * otherwise `pass`, plus `regression` when a score dropped against the baseline
+ */
+function getRouteStates(
+    url: string,
+    deviceType: string,
+    results: FormattedLighthouseResults,
+    assertionResults: AssertionResult[]
+): RouteState[] {
+    const matches = (item: { url: string; deviceType: string }): boolean => item.url === url && item.deviceType === deviceType;
+    const failed = assertionResults.some(result => !result.passed && result.level === 'error' && matches(result)) ||
+        (results.failures || []).some(matches);
+    const regressed = (results.summary.regressions || []).some(matches);
+
+    return [failed ? 'fail' : 'pass', ...(regressed ? ['regression' as const] : [])];
+}
+
+/**
+ * Select the results a route receives, or undefined when none of them match it
+ */
+export function getRouteResults(
+    route: SlackRoute,
+    results: FormattedLighthouseResults,
+    assertionResults: AssertionResult[]
+): RoutedResults | undefined {
+    const matches = (url: string, deviceType: string): boolean =>
+        (route.urls.length === 0 || route.urls.some(pattern => matchesUrlGlob(url, pattern))) &&
+        (route.devices.length === 0 || route.devices.includes(deviceType)) &&
+        (route.when.length === 0 || getRouteStates(url, deviceType, results, assertionResults).some(state => route.when.includes(state)));
+
+    const routed = filterFormattedResults(results, matches);
+    if (routed.results.length === 0 && !routed.failures) {
+        return undefined;
+    }
+
+    return {
+        results: routed,
+        assertionResults: assertionResults.filter(result => matches(result.url, result.deviceType))
+    };
+}
@@ -0,0 +1,176 @@
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getReportDeviceType, getReportUrl, readLighthouseReports } from './reports';
+
+const SARIF_CATEGORIES = ['accessibility', 'best-practices'];
+
+interface SarifRule {
+    id: string;
+    name: string;
+    shortDescription: { text: string };
+    fullDescription: { text: string };
+    helpUri?: string;
+    help: { text: string; markdown: string };
+    properties: { tags: string[]; precision: string; 'problem.severity': string };
+}
+
+interface FailingAudit {
+    ruleId: string;
+    level: 'error' | 'warning' | 'note';
+    url: string;
+    deviceTypes: string[];
+    selector?: string;
+    snippet?: string;
+    explanation?: string;
+}
+
+/**
+ * Map the weight of an audit in its category to a SARIF level
+ */
+function getLevelForWeight(weight: number): 'error' | 'warning' | 'note' {
+    if (weight >= 7) return 'error';
+    if (weight >= 3) return 'warning';
+    return 'note';
+}
+
+/**
+ * Remove Markdown links from an audit description, keeping their text
+ */
+function stripMarkdownLinks(text: string): string {
+    return text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+}
+
+/**
+ * Find the first link of an audit description, which points to its documentation
+ */
+function findHelpUri(text: string): string | undefined {
+    return text.match(/\]\((https?:\/\/[^)]+)\)/)?.[1];
+}
+
+/**
+ * Create a SARIF 2.1.0 log from the failing accessibility and best-practice audits of the saved reports
+ */
+export function createSarifLog(resultsDir: string): Record<string, any> {
+    const reports = readLighthouseReports(resultsDir);
+    const rules = new Map<string, SarifRule>();
+    const failing = new Map<string, FailingAudit>();
+    let lighthouseVersion: string | undefined;
+
+    reports.forEach(lhr => {
+        lighthouseVersion = lighthouseVersion || lhr.lighthouseVersion;
+        const url = getReportUrl(lhr);
+        const deviceType = getReportDeviceType(lhr);
+
+        SARIF_CATEGORIES.forEach(categoryId => {
+            const category = lhr.categories[categoryId];
+            if (!category?.auditRefs) {
+                return;
+            }
+
+            category.auditRefs.forEach((auditRef: { id: string; weight: number }) => {
+                const audit = lhr.audits[auditRef.id];
+                if (!audit || typeof audit.score !== 'number' || audit.score >= 1) {
+                    return;
+                }
+
+                const level = getLevelForWeight(auditRef.weight);
+                const description = audit.description || '';
+
+                if (!rules.has(audit.id)) {
+                    rules.set(audit.id, {
+                        id: audit.id,
+                        name: audit.id,
+                        shortDescription: { text: audit.title },
+                        fullDescription: { text: stripMarkdownLinks(description) || audit.title },
+                        helpUri: findHelpUri(description),
+                        help: { text: stripMarkdownLinks(description) || audit.title, markdown: description || audit.title },
+                        properties: { tags: ['lighthouse', categoryId], precision: 'high', 'problem.severity': level === 'note' ? 'recommendation' : level }
+                    });
+                }
+
+                const items: any[] = Array.isArray(audit.details?.items) ? audit.details.items : [];
+                const nodes = items.map(item => item?.node).filter(node => node?.selector);
+                const locations = nodes.length > 0 ? nodes : [undefined];
+
+                locations.forEach(node => {
+                    const key = `${audit.id}|${url}|${node?.selector || ''}`;
+                    const existing = failing.get(key);
+                    if (existing) {
+                        if (!existing.deviceTypes.includes(deviceType)) {
+                            existing.deviceTypes.push(deviceType);
+                        }
+                        return;
+                    }
+                    failing.set(key, {
+                        ruleId: audit.id,
+                        level,
+                        url,
+                        deviceTypes: [deviceType],
+                        selector: node?.selector,
+                        snippet: node?.snippet,
+                        explanation: node?.explanation
+                    });
+                });
+            });
+        });
+    });
+
+    const ruleList = [...rules.values()];
+    const results = [...failing.values()].map(audit => {
+        const rule = rules.get(audit.ruleId)!;
+        const messageParts = [`${rule.shortDescription.text} on ${audit.url} (${audit.deviceTypes.join(', ')})`];
+        if (audit.selector) messageParts.push(`Element: ${audit.selector}`);
+        if (audit.snippet) messageParts.push(`Snippet: ${audit.snippet}`);
+        if (audit.explanation) messageParts.push(audit.explanation);
+
+        return {
+            ruleId: audit.ruleId,
+            ruleIndex: ruleList.indexOf(rule),
+            level: audit.level,
+            message: { text: messageParts.join('\n') },
+            locations: [{
+                physicalLocation: {
+                    artifactLocation: { uri: audit.url }
+                },
+                logicalLocations: audit.selector ? [{ fullyQualifiedName: audit.selector, kind: 'element' }] : undefined
+            }],
+            partialFingerprints: {
+                primaryLocationLineHash: crypto.createHash('sha256')
+                    .update(`${audit.ruleId}|${audit.url}|${audit.selector || ''}`)
+                    .digest('hex')
+            }
+        };
+    });
+
+    core.debug(`Created SARIF log with ${results.length} results for ${ruleList.length} rules`);
+
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'Lighthouse',
+                    version: lighthouseVersion,
+                    informationUri: 'https://developer.chrome.com/docs/lighthouse',
+                    rules: ruleList
+                }
+            },
+            results
+        }]
+    };
+}
+
+/**
+ * Write the SARIF log of failing audits to a file
+ */
+export function writeSarifReport(resultsDir: string, outputPath: string): string {
+    const resolvedPath = path.resolve(process.cwd(), outputPath);
+    const sarifLog = createSarifLog(resultsDir);
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, JSON.stringify(sarifLog, null, 2));
+    core.info(`SARIF report with ${sarifLog.runs[0].results.length} findings written to ${resolvedPath}`);
+    return resolvedPath;
+}
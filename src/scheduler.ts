@@ -0,0 +1,50 @@
+import * as os from 'os';
+
+export interface SchedulerLane<T, C> {
+    create: () => C;
+    run: (context: C, task: T) => Promise<void>;
+    dispose: (context: C) => Promise<void>;
+}
+
+/**
+ * Get the default number of parallel tests: one per two CPU cores, so every Chrome keeps a core
+ * to itself while Lighthouse and the action share the rest
+ */
+export function getDefaultConcurrency(): number {
+    return Math.max(1, Math.floor(os.cpus().length / 2));
+}
+
+/**
+ * Parse the concurrency input, falling back to the default when it is empty
+ */
+export function parseConcurrency(input: string): number {
+    if (!input.trim()) {
+        return getDefaultConcurrency();
+    }
+
+    const concurrency = parseInt(input);
+    if (isNaN(concurrency) || concurrency < 1) {
+        throw new Error(`Invalid concurrency value: ${input}. Must be a positive number`);
+    }
+    return concurrency;
+}
+
+/**
+ * Run tasks in order with at most `concurrency` in flight. Every lane creates its context once and
+ * takes the next task from the queue until it is empty, so a lane can reuse e.g. a browser between tasks.
+ */
+export async function runWithConcurrency<T, C>(tasks: T[], concurrency: number, lane: SchedulerLane<T, C>): Promise<void> {
+    let nextTask = 0;
+    const laneCount = Math.min(tasks.length, Math.max(1, concurrency));
+
+    await Promise.all(Array.from({ length: laneCount }, async () => {
+        const context = lane.create();
+        try {
+            while (nextTask < tasks.length) {
+                await lane.run(context, tasks[nextTask++]);
+            }
+        } finally {
+            await lane.dispose(context);
+        }
+    }));
+}
@@ -1,7 +1,36 @@
 import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
 import { IncomingWebhook } from '@slack/webhook';
 import { WebClient } from '@slack/web-api';
-import { FormattedLighthouseResults, formatScore } from './utils';
+import {
+    FormattedLighthouseResults,
+    getCategoryConfig,
+    getNormalizedCategoryName,
+    sortCategories,
+    getKeyInsights,
+    getWorkflowRunUrl,
+    getWorkflowRunContext,
+    getScoreEmoji,
+    LighthouseMetric,
+    MetricRating,
+    METRIC_DEFINITIONS,
+    formatScoreDelta,
+    formatSparkline,
+    formatMetricValue,
+    formatDuration,
+    getMetricRating,
+    matchesUrlGlob,
+    LighthouseResult,
+    ProgressCallback,
+    TestProgressEvent,
+    TestProgressStatus
+} from './utils';
+import { AssertionResult, formatAssertionResult } from './assertions';
+import { getRouteResults, parseSlackRoutes } from './routing';
+import { ReportDetails, findLighthouseReport, getReportDetails, readLighthouseReports } from './reports';
+import { renderTemplate } from './template';
+import { createZip } from './zip';
 
 interface TextObject {
     type: string;
@@ -42,70 +71,50 @@ interface SummaryColumnSlot {
 
 type SlackBlock = SectionBlock | HeaderBlock | DividerBlock | ContextBlock;
 
-interface CategoryData {
-    title: string;
-    icon: string;
-}
+type ReportLinks = Record<string, Record<string, string>>;
 
-/**
- * Get emoji for a Lighthouse score using Unicode emoji
- */
-function getScoreEmoji(score: number): string {
-    if (score >= 0.9) return '🟢';
-    if (score >= 0.5) return '🟡';
-    return '🔴';
+const SLACK_MAX_BLOCKS = 50;
+
+interface SlackOwner {
+    pattern: string;
+    mentions: string[];
 }
 
-/**
- * Format a number as percentage
- */
-function formatPercentage(score: number): string {
-    return `${Math.round(score * 100)}%`;
+interface SlackDestination {
+    webhookUrl?: string;
+    channel?: string;
+    replaceProgress: boolean;
 }
 
-const categoryConfig: Record<string, CategoryData> = {
-    'performance': { title: 'Performance', icon: '⚡️' },
-    'accessibility': { title: 'Accessibility', icon: '♿️' },
-    'best-practices': { title: 'Best Practices', icon: '🙌' },
-    'bestpractices': { title: 'Best Practices', icon: '🙌' },
-    'seo': { title: 'SEO', icon: '🔍' },
-    'pwa': { title: 'PWA', icon: '📱' }
-};
+interface ReportUploadOptions {
+    zip: boolean;
+    perFile: boolean;
+    maxBytes: number;
+}
 
 /**
- * Get configuration for a category
+ * Get emoji for a Core Web Vitals rating
  */
-function getCategoryConfig(categoryName: string): CategoryData {
-    const normalized = getNormalizedCategoryName(categoryName);
-    return categoryConfig[normalized] || {
-        title: categoryName.charAt(0).toUpperCase() + categoryName.slice(1),
-        icon: '📊'
-    };
+function getRatingEmoji(rating: MetricRating): string {
+    if (rating === 'good') return '🟢';
+    if (rating === 'needs-improvement') return '🟡';
+    return '🔴';
 }
 
 /**
- * Normalize category name for consistent handling
+ * Format a number as percentage
  */
-function getNormalizedCategoryName(name: string): string {
-    if (!name) return 'unknown';
-
-    name = name.toLowerCase().trim();
-
-    if (name === 'bestpractices' || name === 'best practices') {
-        return 'best-practices';
-    }
-
-    return name;
+function formatPercentage(score: number): string {
+    return `${Math.round(score * 100)}%`;
 }
 
 /**
  * Generate table header for categories
  * Uses fixed-width columns for better alignment
  */
-function generateCategoryHeaders(categories: string[], hasMobileTests = false, hasDesktopTests = false): string {
+function generateCategoryHeaders(categories: string[], hasMobileTests = false, hasDesktopTests = false, COLUMN_WIDTH = 13): string {
     if (categories.length === 0) return "```| No categories tested |```";
 
-    const COLUMN_WIDTH = 13;
     const DEVICE_COLUMN_WIDTH = 5;
 
     let header = "```| ";
@@ -134,6 +143,45 @@ function generateCategoryHeaders(categories: string[], hasMobileTests = false, h
     return header + "```";
 }
 
+/**
+ * Format a single score, adding the change against the baseline when one is known
+ */
+function formatScoreWithDelta(score: number, previousScore?: number): string {
+    if (previousScore === undefined) {
+        return formatPercentage(score);
+    }
+    return `${formatPercentage(score)} (${formatScoreDelta(score, previousScore)})`;
+}
+
+/**
+ * Format the text of a single table cell
+ */
+function formatScoreCell(
+    category: string,
+    mobileScores: Record<string, number>,
+    desktopScores: Record<string, number>,
+    hasMobile: boolean,
+    hasDesktop: boolean,
+    mobileBaseline: Record<string, number> = {},
+    desktopBaseline: Record<string, number> = {}
+): string {
+    const mobileScore = mobileScores[category] !== undefined ? mobileScores[category] : 0;
+    const desktopScore = desktopScores[category] !== undefined ? desktopScores[category] : 0;
+
+    core.debug(`Formatting score for ${category}: mobile=${mobileScore}, desktop=${desktopScore}`);
+
+    if (hasMobile && hasDesktop) {
+        const mobileFormatted = formatScoreWithDelta(mobileScore, mobileBaseline[category]);
+        const desktopFormatted = formatScoreWithDelta(desktopScore, desktopBaseline[category]);
+        return `${mobileFormatted}/${desktopFormatted}`;
+    } else if (hasMobile) {
+        return formatScoreWithDelta(mobileScore, mobileBaseline[category]);
+    } else if (hasDesktop) {
+        return formatScoreWithDelta(desktopScore, desktopBaseline[category]);
+    }
+    return "N/A";
+}
+
 /**
  * Create row for score data with consistent column widths
  */
@@ -144,34 +192,27 @@ function formatScoreRow(
     hasMobile: boolean,
     hasDesktop: boolean,
     urlText: string,
-    summaryColumn: SummaryColumnSlot
+    summaryColumn: SummaryColumnSlot,
+    mobileBaseline: Record<string, number> = {},
+    desktopBaseline: Record<string, number> = {},
+    COLUMN_WIDTH = 13
 ): string {
     if (categories.length === 0) return "```| No data available |```";
 
-    const COLUMN_WIDTH = 13;
     const DEVICE_COLUMN_WIDTH = 5;
 
     let row = "```|";
 
     categories.forEach(category => {
-        const mobileScore = mobileScores[category] !== undefined ? mobileScores[category] : 0;
-        const desktopScore = desktopScores[category] !== undefined ? desktopScores[category] : 0;
-        
-        core.debug(`Formatting score for ${category}: mobile=${mobileScore}, desktop=${desktopScore}`);
-
-        let scoreText;
-
-        if (hasMobile && hasDesktop) {
-            const mobileFormatted = formatPercentage(mobileScore);
-            const desktopFormatted = formatPercentage(desktopScore);
-            scoreText = `${mobileFormatted}/${desktopFormatted}`;
-        } else if (hasMobile) {
-            scoreText = formatPercentage(mobileScore);
-        } else if (hasDesktop) {
-            scoreText = formatPercentage(desktopScore);
-        } else {
-            scoreText = "N/A";
-        }
+        const scoreText = formatScoreCell(
+            category,
+            mobileScores,
+            desktopScores,
+            hasMobile,
+            hasDesktop,
+            mobileBaseline,
+            desktopBaseline
+        );
 
         const paddingSize = Math.floor((COLUMN_WIDTH - scoreText.length) / 2);
         const leftPad = " ".repeat(paddingSize);
@@ -200,7 +241,7 @@ function formatScoreRow(
 /**
  * Generate legend explanation for the table
  */
-function generateLegend(categories: string[], hasMobile: boolean, hasDesktop: boolean): string {
+function generateLegend(categories: string[], hasMobile: boolean, hasDesktop: boolean, hasTrends = false): string {
     let legend = "Legend: ";
 
     const categoryLegends = categories.map(cat => {
@@ -217,32 +258,316 @@ function generateLegend(categories: string[], hasMobile: boolean, hasDesktop: bo
         legend += "\n📊 Showing Desktop scores";
     }
 
+    if (hasTrends) {
+        legend += "\n📈 Trend: average score of recent runs and 7-day average";
+    }
+
     return legend;
 }
 
 /**
- * Create a Slack message for the Lighthouse results with a consistent tabular layout
+ * Split lines of text into as many section blocks as needed to stay within Slack's text limit
+ */
+function createTextSections(lines: string[]): SectionBlock[] {
+    const SLACK_TEXT_LIMIT = 3000;
+    const sections: SectionBlock[] = [];
+    let currentText = '';
+
+    lines.forEach(line => {
+        if (currentText && currentText.length + line.length + 1 > SLACK_TEXT_LIMIT) {
+            sections.push({ type: 'section', text: { type: 'mrkdwn', text: currentText } });
+            currentText = '';
+        }
+        currentText += currentText ? `\n${line}` : line;
+    });
+
+    if (currentText) {
+        sections.push({ type: 'section', text: { type: 'mrkdwn', text: currentText } });
+    }
+
+    return sections;
+}
+
+/**
+ * Format a metric for one device as a fixed-width cell, e.g. `🟢 1.8 s`
+ */
+function formatMetricCell(metric: LighthouseMetric | undefined): string {
+    const METRIC_COLUMN_WIDTH = 10;
+    if (!metric) {
+        return 'n/a'.padEnd(METRIC_COLUMN_WIDTH + 3);
+    }
+    const rating = getMetricRating(metric.id, metric.numericValue);
+    return `${getRatingEmoji(rating)} ${formatMetricValue(metric.id, metric.numericValue).padEnd(METRIC_COLUMN_WIDTH)}`;
+}
+
+/**
+ * Create blocks with a Core Web Vitals table per URL, coloured by the official thresholds
+ */
+function createMetricsBlocks(results: FormattedLighthouseResults): SlackBlock[] {
+    const metricsByUrl: Record<string, Record<string, Record<string, LighthouseMetric>>> = {};
+
+    results.results.forEach(result => {
+        if (!result.metrics || Object.keys(result.metrics).length === 0) {
+            return;
+        }
+        if (!metricsByUrl[result.url]) {
+            metricsByUrl[result.url] = {};
+        }
+        metricsByUrl[result.url][result.deviceType] = result.metrics;
+    });
+
+    if (Object.keys(metricsByUrl).length === 0) {
+        return [];
+    }
+
+    const deviceTypes = ['mobile', 'desktop'].filter(deviceType =>
+        Object.values(metricsByUrl).some(devices => devices[deviceType])
+    );
+    const deviceIcons: Record<string, string> = { mobile: '📱', desktop: '💻' };
+
+    const urlTables = Object.entries(metricsByUrl).map(([url, devices]) => {
+        const header = `${'Metric'.padEnd(6)}${deviceTypes.map(deviceType => ` ${deviceIcons[deviceType]}${' '.repeat(11)}`).join('')}`;
+        const rows = Object.entries(METRIC_DEFINITIONS)
+            .filter(([id]) => deviceTypes.some(deviceType => devices[deviceType]?.[id]))
+            .map(([id, definition]) =>
+                `${definition.shortTitle.padEnd(6)}${deviceTypes.map(deviceType => ` ${formatMetricCell(devices[deviceType]?.[id])}`).join('')}`
+            );
+        return `${url}\n\`\`\`${header}\n${rows.join('\n')}\`\`\``;
+    });
+
+    return [
+        {
+            type: 'divider'
+        },
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: '*Core Web Vitals:* 🟢 Good · 🟡 Needs improvement · 🔴 Poor'
+            }
+        },
+        ...createTextSections(urlTables)
+    ];
+}
+
+/**
+ * Create blocks listing the scores that dropped against the baseline by more than the regression threshold
+ */
+function createRegressionBlocks(results: FormattedLighthouseResults): SlackBlock[] {
+    const regressions = results.summary.regressions || [];
+    if (regressions.length === 0) {
+        return [];
+    }
+
+    const lines = regressions.map(regression => {
+        const config = getCategoryConfig(regression.category);
+        return `• ${regression.url} (${regression.deviceType}) ${config.icon} ${config.title}: ` +
+            `${formatPercentage(regression.previousScore)} → ${formatPercentage(regression.currentScore)} ` +
+            `(${formatScoreDelta(regression.currentScore, regression.previousScore)})`;
+    });
+
+    return [
+        {
+            type: 'divider'
+        },
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: `*Regressions:* ${regressions.length} scores dropped against the baseline`
+            }
+        },
+        ...createTextSections(lines)
+    ];
+}
+
+/**
+ * Create section blocks listing every failed assertion, split to stay within Slack's text limit
+ */
+function createAssertionBlocks(assertionResults: AssertionResult[]): SlackBlock[] {
+    const failed = assertionResults.filter(r => !r.passed);
+    if (failed.length === 0) {
+        return [];
+    }
+
+    const errorCount = failed.filter(r => r.level === 'error').length;
+    const warningCount = failed.length - errorCount;
+
+    const blocks: SlackBlock[] = [
+        {
+            type: 'divider'
+        },
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: `*Failed Assertions:* ${errorCount} errors, ${warningCount} warnings`
+            }
+        }
+    ];
+
+    const lines = failed
+        .sort((a, b) => (a.level === b.level ? 0 : a.level === 'error' ? -1 : 1))
+        .map(result => `${result.level === 'error' ? '❌' : '⚠️'} ${formatAssertionResult(result)}`);
+
+    blocks.push(...createTextSections(lines));
+
+    return blocks;
+}
+
+/**
+ * Format the links to the uploaded reports of a URL, shown below its table row
+ */
+function formatReportLinks(links: Record<string, string> | undefined): string {
+    if (!links || Object.keys(links).length === 0) {
+        return '';
+    }
+
+    const uniqueLinks = [...new Set(Object.values(links))];
+    if (uniqueLinks.length === 1 && Object.keys(links).length > 1) {
+        return `\n📄 <${uniqueLinks[0]}|Reports>`;
+    }
+
+    return '\n📄 ' + Object.entries(links)
+        .map(([deviceType, permalink]) => `<${permalink}|${deviceType === 'mobile' ? 'Mobile' : 'Desktop'} report>`)
+        .join(' · ');
+}
+
+/**
+ * Convert a Slack user, group or special mention ID to mention syntax, e.g. `U123` to `<@U123>`
+ */
+function formatSlackMention(id: string): string {
+    const trimmed = id.trim();
+    if (trimmed.startsWith('<') && trimmed.endsWith('>')) {
+        return trimmed;
+    }
+
+    const special = trimmed.replace(/^[@!]/, '').toLowerCase();
+    if (['here', 'channel', 'everyone'].includes(special)) {
+        return `<!${special}>`;
+    }
+    if (/^[UW][A-Z0-9]+$/.test(trimmed)) {
+        return `<@${trimmed}>`;
+    }
+    if (/^S[A-Z0-9]+$/.test(trimmed)) {
+        return `<!subteam^${trimmed}>`;
+    }
+    throw new Error(`Invalid Slack owner '${trimmed}', expected a user ID (U123), a user group ID (S123), @here or @channel`);
+}
+
+/**
+ * Parse the owner mapping, given as a JSON object or as `pattern: ID, ID` lines
+ */
+function parseSlackOwners(input: string): SlackOwner[] {
+    const trimmed = input.trim();
+    if (!trimmed) {
+        return [];
+    }
+
+    let entries: Array<[string, string[]]>;
+    if (trimmed.startsWith('{')) {
+        entries = Object.entries(JSON.parse(trimmed)).map(([pattern, ids]) => [
+            pattern,
+            Array.isArray(ids) ? ids.map(String) : String(ids).split(',')
+        ]);
+    } else {
+        entries = trimmed.split('\n').map(line => line.trim()).filter(line => line).map(line => {
+            // The last colon separates the IDs, since the pattern itself may be a URL
+            const separator = line.lastIndexOf(':');
+            if (separator <= 0) {
+                throw new Error(`Invalid owner mapping '${line}', expected 'pattern: ID, ID'`);
+            }
+            return [line.slice(0, separator).trim(), line.slice(separator + 1).split(',')];
+        });
+    }
+
+    return entries.map(([pattern, ids]) => ({
+        pattern,
+        mentions: ids.map(id => id.trim()).filter(id => id).map(formatSlackMention)
+    }));
+}
+
+/**
+ * Get the mentions of every owner whose pattern matches the URL
+ */
+function getOwnerMentions(url: string, owners: SlackOwner[]): string[] {
+    const mentions = owners.filter(owner => matchesUrlGlob(url, owner.pattern)).flatMap(owner => owner.mentions);
+    return Array.from(new Set(mentions));
+}
+
+/**
+ * Collect the URLs that failed the run, with the reasons they failed
+ */
+function getFailingUrls(results: FormattedLighthouseResults, assertionResults: AssertionResult[]): Map<string, string[]> {
+    const failing = new Map<string, string[]>();
+    const addReason = (url: string, reason: string): void => {
+        failing.set(url, [...(failing.get(url) || []), reason]);
+    };
+
+    (results.failures || []).forEach(failure => addReason(failure.url, `${failure.deviceType} test failed`));
+
+    const failedAssertions = new Map<string, number>();
+    assertionResults
+        .filter(result => !result.passed && result.level === 'error')
+        .forEach(result => failedAssertions.set(result.url, (failedAssertions.get(result.url) || 0) + 1));
+    failedAssertions.forEach((count, url) => addReason(url, `${count} failed assertion${count === 1 ? '' : 's'}`));
+
+    return failing;
+}
+
+/**
+ * Create the status blocks of a failed run, listing the failing URLs and mentioning their owners
  */
-function createSlackBlocks(
+function createFailureStatusBlocks(failing: Map<string, string[]>, owners: SlackOwner[]): SlackBlock[] {
+    const MAX_LISTED_URLS = 10;
+    const lines = [`🔴 *Run failed:* ${failing.size} URL${failing.size === 1 ? '' : 's'} did not meet the thresholds`];
+
+    Array.from(failing.entries()).slice(0, MAX_LISTED_URLS).forEach(([url, reasons]) => {
+        const mentions = getOwnerMentions(url, owners);
+        lines.push(`• ${escapeMrkdwn(url)} — ${reasons.join(', ')}${mentions.length > 0 ? ` ${mentions.join(' ')}` : ''}`);
+    });
+    if (failing.size > MAX_LISTED_URLS) {
+        // The owners of URLs left out of the list still need to be pinged
+        const failingUrls = Array.from(failing.keys());
+        const listedMentions = new Set(failingUrls.slice(0, MAX_LISTED_URLS).flatMap(url => getOwnerMentions(url, owners)));
+        const moreMentions = Array.from(new Set(failingUrls.slice(MAX_LISTED_URLS).flatMap(url => getOwnerMentions(url, owners))))
+            .filter(mention => !listedMentions.has(mention));
+        lines.push(`_…and ${failing.size - MAX_LISTED_URLS} more_${moreMentions.length > 0 ? ` ${moreMentions.join(' ')}` : ''}`);
+    }
+
+    return createTextSections(lines);
+}
+
+/**
+ * Create the Slack messages for the Lighthouse results with a consistent tabular layout
+ */
+function createSlackMessages(
     results: FormattedLighthouseResults,
-    title: string
-): Array<SlackBlock> {
+    title: string,
+    assertionResults: AssertionResult[] = [],
+    showMetrics = false,
+    reportLinks: ReportLinks = {},
+    owners: SlackOwner[] = []
+): SlackBlock[][] {
     core.debug('Creating enhanced Slack message blocks with tabular layout');
 
+    const failingUrls = getFailingUrls(results, assertionResults);
     const blocks: SlackBlock[] = [
         {
             type: 'header',
             text: {
                 type: 'plain_text',
-                text: title,
+                text: failingUrls.size > 0 ? `🔴 ${title}` : title,
                 emoji: true
             }
         },
+        ...(failingUrls.size > 0 ? createFailureStatusBlocks(failingUrls, owners) : []),
         {
             type: 'section',
             text: {
                 type: 'mrkdwn',
-                text: `*Summary:* Tested ${results.summary.totalUrls} URLs with ${results.summary.totalTests} tests`
+                text: `*Summary:* Tested ${results.summary.totalUrls} URLs with ${results.summary.totalTests} tests` +
+                    (results.summary.baselineScores ? ' · Changes shown against baseline in points' : '')
             }
         },
         {
@@ -253,6 +578,8 @@ function createSlackBlocks(
     const urlResults: Record<string, {
         mobileScores: Record<string, number>;
         desktopScores: Record<string, number>;
+        mobileBaseline: Record<string, number>;
+        desktopBaseline: Record<string, number>;
     }> = {};
 
     const allCategories = new Set<string>();
@@ -265,10 +592,14 @@ function createSlackBlocks(
         if (!urlResults[url]) {
             urlResults[url] = {
                 mobileScores: {},
-                desktopScores: {}
+                desktopScores: {},
+                mobileBaseline: {},
+                desktopBaseline: {}
             };
         }
 
+        const baselineScores = results.summary.baselineScores?.[url]?.[result.deviceType] || {};
+
         result.categories.forEach(category => {
             const rawCategoryName = category.id || category.title.toLowerCase();
             const categoryName = getNormalizedCategoryName(rawCategoryName);
@@ -277,41 +608,61 @@ function createSlackBlocks(
             
             core.debug(`URL: ${url}, Device: ${result.deviceType}, Category: ${categoryName}, Score: ${category.score}`);
 
+            const previousScore = baselineScores[category.id];
+
             if (result.deviceType === 'mobile') {
                 hasMobileTests = true;
                 urlResults[url].mobileScores[categoryName] = category.score;
+                if (previousScore !== undefined) {
+                    urlResults[url].mobileBaseline[categoryName] = previousScore;
+                }
             } else {
                 hasDesktopTests = true;
                 urlResults[url].desktopScores[categoryName] = category.score;
+                if (previousScore !== undefined) {
+                    urlResults[url].desktopBaseline[categoryName] = previousScore;
+                }
             }
         });
     });
 
-    const sortedCategories = Array.from(allCategories).sort((a, b) => {
-        const order = ['performance', 'seo', 'accessibility', 'best-practices'];
-        return order.indexOf(a) - order.indexOf(b);
-    });
+    const sortedCategories = sortCategories(Array.from(allCategories));
 
     const legendBlock: SectionBlock = {
         type: 'section',
         text: {
             type: 'mrkdwn',
-            text: generateLegend(sortedCategories, hasMobileTests, hasDesktopTests)
+            text: generateLegend(sortedCategories, hasMobileTests, hasDesktopTests, !!results.summary.trends)
         }
     };
     blocks.push(legendBlock);
 
+    // Widen the columns when deltas against the baseline make the cells longer
+    let columnWidth = 13;
+    for (const data of Object.values(urlResults)) {
+        sortedCategories.forEach(category => {
+            const cellText = formatScoreCell(
+                category,
+                data.mobileScores,
+                data.desktopScores,
+                hasMobileTests,
+                hasDesktopTests,
+                data.mobileBaseline,
+                data.desktopBaseline
+            );
+            columnWidth = Math.max(columnWidth, cellText.length + 2);
+        });
+    }
+
     const headerBlock: SectionBlock = {
         type: 'section',
         text: {
             type: 'mrkdwn',
-            text: generateCategoryHeaders(sortedCategories, hasMobileTests, hasDesktopTests)
+            text: generateCategoryHeaders(sortedCategories, hasMobileTests, hasDesktopTests, columnWidth)
         }
     };
-    blocks.push(headerBlock);
 
-    const SLACK_MESSAGE_CHAR_LIMIT = 3000;
-    let currentMessageLength = JSON.stringify(blocks).length;
+    const rowBlocks: SlackBlock[] = [];
 
     for (const [url, data] of Object.entries(urlResults)) {
         const summaryColumn: SummaryColumnSlot = { mobileScoreEmoji: null, desktopScoreEmoji: null };
@@ -328,9 +679,13 @@ function createSlackBlocks(
             summaryColumn.desktopScoreEmoji = getScoreEmoji(desktopAvgScore);
         }
 
-        const urlText = `${url}`;
+        let urlText = `${url}`;
+        const trend = results.summary.trends?.[url];
+        if (trend && trend.scores.length > 1) {
+            urlText += `\n${formatSparkline(trend.scores)} 7d avg ${formatPercentage(trend.sevenDayAverage)}`;
+        }
 
-        const scoresBlock: SectionBlock = {
+        rowBlocks.push({
             type: 'section',
             text: {
                 type: 'mrkdwn',
@@ -341,107 +696,45 @@ function createSlackBlocks(
                     hasMobileTests,
                     hasDesktopTests,
                     urlText,
-                    summaryColumn
-                )
+                    summaryColumn,
+                    data.mobileBaseline,
+                    data.desktopBaseline,
+                    columnWidth
+                ) + formatReportLinks(reportLinks[url])
             }
-        };
-
-        const blocksSize = JSON.stringify([scoresBlock]).length;
-        if (currentMessageLength + blocksSize > SLACK_MESSAGE_CHAR_LIMIT) {
-            const warningBlock: ContextBlock = {
-                type: 'context',
-                elements: [{
-                    type: 'mrkdwn',
-                    text: '⚠️ Some results were omitted due to Slack message size limitations'
-                }]
-            };
-            blocks.push(warningBlock);
-            break;
-        }
-
-        blocks.push(scoresBlock);
-        currentMessageLength += blocksSize;
+        });
     }
 
-    if (Object.keys(results.summary.averageScores).length > 0) {
-        blocks.push({
+    const insightBlocks: SlackBlock[] = [];
+    const insights = getKeyInsights(results);
+    if (insights.length > 0) {
+        insightBlocks.push({
             type: 'divider'
         });
 
-        let bestCategory = '';
-        let bestScore = 0;
-        let worstCategory = '';
-        let worstScore = 1;
-
-        for (const [category, score] of Object.entries(results.summary.averageScores)) {
-            if (score > bestScore) {
-                bestScore = score;
-                bestCategory = category;
-            }
-            if (score < worstScore) {
-                worstScore = score;
-                worstCategory = category;
-            }
-        }
-
-        if (bestCategory && worstCategory) {
-            blocks.push({
-                type: 'section',
-                text: {
-                    type: 'mrkdwn',
-                    text: '*Key Insights:*'
-                }
-            });
-
-            const insights = [
-                `• *Strongest Area:* ${getCategoryConfig(bestCategory).title} at ${formatScore(bestScore)}`,
-                `• *Area for Improvement:* ${getCategoryConfig(worstCategory).title} at ${formatScore(worstScore)}`
-            ];
-
-            if (hasMobileTests && hasDesktopTests) {
-                let biggestGapCategory = '';
-                let biggestGap = 0;
-                let mobileScore = 0;
-                let desktopScore = 0;
-
-                for (const [category, mobileAvg] of Object.entries(results.summary.scoresByDevice['mobile'] || {})) {
-                    const desktopAvg = results.summary.scoresByDevice['desktop']?.[category] || 0;
-                    const gap = Math.abs(mobileAvg - desktopAvg);
-
-                    if (gap > biggestGap) {
-                        biggestGap = gap;
-                        biggestGapCategory = category;
-                        mobileScore = mobileAvg;
-                        desktopScore = desktopAvg;
-                    }
-                }
-
-                if (biggestGapCategory && biggestGap > 0.1) {
-                    const betterDevice = mobileScore > desktopScore ? 'Mobile' : 'Desktop';
-                    insights.push(`• *Device Gap:* ${getCategoryConfig(biggestGapCategory).title} is ${Math.round(biggestGap * 100)}% better on ${betterDevice}`);
-                }
+        insightBlocks.push({
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: '*Key Insights:*'
             }
+        });
 
-            blocks.push({
-                type: 'section',
-                text: {
-                    type: 'mrkdwn',
-                    text: insights.join('\n')
-                }
-            });
-        }
+        insightBlocks.push(...createTextSections(insights.map(insight => `• *${insight.label}:* ${insight.text}`)));
     }
 
+    const metricsBlocks = showMetrics ? createMetricsBlocks(results) : [];
+    const findingBlocks = [...createRegressionBlocks(results), ...createAssertionBlocks(assertionResults)];
+
     const footerText = [];
     footerText.push(`Generated by Lighthouse CI Slack Reporter · ${new Date().toISOString()}`);
 
-    if (process.env.GITHUB_REPOSITORY && process.env.GITHUB_RUN_ID) {
-        const repoUrl = process.env.GITHUB_REPOSITORY;
-        const runId = process.env.GITHUB_RUN_ID;
-        footerText.push(`<https://github.com/${repoUrl}/actions/runs/${runId}|Download full report from GitHub>`);
+    const runUrl = getWorkflowRunUrl();
+    if (runUrl) {
+        footerText.push(`<${runUrl}|Download full report from GitHub>`);
     }
 
-    blocks.push({
+    const footerBlock: ContextBlock = {
         type: 'context',
         elements: [
             {
@@ -449,9 +742,237 @@ function createSlackBlocks(
                 text: footerText.join(' · ')
             }
         ]
+    };
+
+    const singleMessage = [
+        ...blocks,
+        headerBlock,
+        ...rowBlocks,
+        ...metricsBlocks,
+        ...insightBlocks,
+        ...findingBlocks,
+        footerBlock
+    ];
+    if (singleMessage.length <= SLACK_MAX_BLOCKS) {
+        return [singleMessage];
+    }
+
+    return paginateBlocks(blocks, headerBlock, rowBlocks, insightBlocks, [...metricsBlocks, ...findingBlocks], footerBlock);
+}
+
+/**
+ * Split a report that does not fit in one message within Slack's block limit.
+ * The first message holds as many rows as fit together with the Key Insights and footer; the remaining rows
+ * (under a repeated table header), metrics, regressions and assertions follow in messages labelled "Part 2/3".
+ */
+function paginateBlocks(
+    introBlocks: SlackBlock[],
+    headerBlock: SlackBlock,
+    rowBlocks: SlackBlock[],
+    insightBlocks: SlackBlock[],
+    detailBlocks: SlackBlock[],
+    footerBlock: SlackBlock
+): SlackBlock[][] {
+    const partLabels: ContextBlock[] = [];
+    const createPartLabel = (): ContextBlock => {
+        const label: ContextBlock = { type: 'context', elements: [{ type: 'mrkdwn', text: '' }] };
+        partLabels.push(label);
+        return label;
+    };
+
+    const firstRowCount = Math.max(0, SLACK_MAX_BLOCKS - introBlocks.length - 3 - insightBlocks.length);
+    const messages: SlackBlock[][] = [[
+        ...introBlocks,
+        createPartLabel(),
+        headerBlock,
+        ...rowBlocks.slice(0, firstRowCount),
+        ...insightBlocks,
+        footerBlock
+    ]];
+
+    let remainingRows = rowBlocks.slice(firstRowCount);
+    let remainingDetails = detailBlocks;
+    while (remainingRows.length > 0 || remainingDetails.length > 0) {
+        const message: SlackBlock[] = [createPartLabel()];
+        if (remainingRows.length > 0) {
+            message.push(headerBlock);
+            const rowCount = SLACK_MAX_BLOCKS - message.length;
+            message.push(...remainingRows.slice(0, rowCount));
+            remainingRows = remainingRows.slice(rowCount);
+        }
+        if (remainingRows.length === 0) {
+            const detailCount = SLACK_MAX_BLOCKS - message.length;
+            message.push(...remainingDetails.slice(0, detailCount));
+            remainingDetails = remainingDetails.slice(detailCount);
+        }
+        messages.push(message);
+    }
+
+    partLabels.forEach((label, index) => {
+        label.elements[0].text = `Part ${index + 1}/${messages.length}`;
     });
 
-    return blocks;
+    core.debug(`Split Slack report into ${messages.length} messages`);
+    return messages;
+}
+
+/**
+ * Describe a category score for templates, e.g. `{ score: 90, percent: '90%', emoji: '🟢' }`
+ */
+function createTemplateScore(categoryId: string, score: number, previousScore?: number): Record<string, any> {
+    const config = getCategoryConfig(categoryId);
+    return {
+        id: getNormalizedCategoryName(categoryId),
+        title: config.title,
+        icon: config.icon,
+        score: Math.round(score * 100),
+        percent: formatPercentage(score),
+        emoji: getScoreEmoji(score),
+        delta: previousScore !== undefined ? formatScoreDelta(score, previousScore) : undefined
+    };
+}
+
+/**
+ * Build the object that Slack templates are rendered against, with loops over URLs, devices and categories
+ * and the scores of each device keyed by category for templates that choose their own order
+ */
+function createSlackTemplateView(
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[],
+    reportLinks: ReportLinks,
+    owners: SlackOwner[]
+): Record<string, any> {
+    const failingUrls = getFailingUrls(results, assertionResults);
+    const categoryIds = sortCategories(Array.from(new Set(
+        results.results.flatMap(result => result.categories.map(category => getNormalizedCategoryName(category.id)))
+    )));
+    const deviceTypes = ['mobile', 'desktop'].filter(deviceType => results.results.some(result => result.deviceType === deviceType));
+    const describeDevice = (deviceType: string): Record<string, string> => ({
+        type: deviceType,
+        label: deviceType === 'mobile' ? 'Mobile' : 'Desktop',
+        icon: deviceType === 'mobile' ? '📱' : '💻'
+    });
+
+    const urls = Array.from(new Set(results.results.map(result => result.url))).map(url => {
+        const devices = results.results.filter(result => result.url === url).map(result => {
+            const baselineScores = results.summary.baselineScores?.[url]?.[result.deviceType] || {};
+            const categories = sortCategories(result.categories.map(category => category.id))
+                .map(id => result.categories.find(category => category.id === id)!)
+                .map(category => createTemplateScore(category.id, category.score, baselineScores[category.id]));
+
+            return {
+                ...describeDevice(result.deviceType),
+                categories,
+                scores: Object.fromEntries(categories.map(category => [category.id, category])),
+                metrics: Object.entries(METRIC_DEFINITIONS)
+                    .filter(([id]) => result.metrics?.[id])
+                    .map(([id, definition]) => {
+                        const rating = getMetricRating(id, result.metrics![id].numericValue);
+                        return {
+                            id,
+                            title: definition.title,
+                            shortTitle: definition.shortTitle,
+                            value: formatMetricValue(id, result.metrics![id].numericValue),
+                            rating,
+                            emoji: getRatingEmoji(rating)
+                        };
+                    }),
+                reportUrl: reportLinks[url]?.[result.deviceType] || result.reportUrl
+            };
+        });
+
+        return {
+            url,
+            failed: failingUrls.has(url),
+            reasons: failingUrls.get(url) || [],
+            mentions: getOwnerMentions(url, owners).join(' '),
+            devices
+        };
+    });
+
+    return {
+        title,
+        passed: failingUrls.size === 0,
+        failed: failingUrls.size > 0,
+        summary: results.summary,
+        legend: generateLegend(categoryIds, deviceTypes.includes('mobile'), deviceTypes.includes('desktop')),
+        categories: categoryIds.map(id => createTemplateScore(id, results.summary.averageScores[id] ?? 0)),
+        devices: deviceTypes.map(describeDevice),
+        urls,
+        failingUrls: urls.filter(url => url.failed),
+        insights: getKeyInsights(results),
+        regressions: (results.summary.regressions || []).map(regression => ({
+            ...regression,
+            ...getCategoryConfig(regression.category),
+            previousPercent: formatPercentage(regression.previousScore),
+            currentPercent: formatPercentage(regression.currentScore),
+            delta: formatScoreDelta(regression.currentScore, regression.previousScore)
+        })),
+        failedAssertions: assertionResults
+            .filter(result => !result.passed)
+            .map(result => ({ ...result, text: formatAssertionResult(result) })),
+        failures: results.failures || [],
+        run: getWorkflowRunContext()
+    };
+}
+
+/**
+ * Render the Slack template file into messages. The template must produce a Block Kit array of blocks
+ * or an object with a `blocks` array; longer block lists are split within Slack's block limit.
+ */
+function createTemplateMessages(
+    template: string,
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[] = [],
+    reportLinks: ReportLinks = {},
+    owners: SlackOwner[] = []
+): SlackBlock[][] {
+    const rendered = renderTemplate(template, createSlackTemplateView(results, title, assertionResults, reportLinks, owners));
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(rendered);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`The rendered Slack template is not valid JSON: ${errorMessage}`);
+    }
+
+    const blocks: SlackBlock[] | undefined = Array.isArray(parsed) ? parsed : parsed?.blocks;
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+        throw new Error('The Slack template must render to an array of blocks or an object with a "blocks" array');
+    }
+
+    if (blocks.length <= SLACK_MAX_BLOCKS) {
+        return [blocks];
+    }
+
+    // Like the default layout, every message of a split template starts with its part label
+    const chunkSize = SLACK_MAX_BLOCKS - 1;
+    const messageCount = Math.ceil(blocks.length / chunkSize);
+    const messages: SlackBlock[][] = [];
+    for (let i = 0; i < blocks.length; i += chunkSize) {
+        const partLabel: ContextBlock = {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `Part ${messages.length + 1}/${messageCount}` }]
+        };
+        messages.push([partLabel, ...blocks.slice(i, i + chunkSize)]);
+    }
+
+    core.debug(`Split templated Slack report into ${messages.length} messages`);
+    return messages;
+}
+
+/**
+ * Read the Slack template file
+ */
+function loadSlackTemplate(templatePath: string): string {
+    const resolvedPath = path.resolve(process.cwd(), templatePath);
+    if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`Slack template not found: ${resolvedPath}`);
+    }
+    return fs.readFileSync(resolvedPath, 'utf8');
 }
 
 /**
@@ -500,35 +1021,42 @@ async function sendViaWebhook(
 }
 
 /**
- * Send Lighthouse results to Slack via API
+ * Create a Slack Web API client with retries
+ */
+function createSlackClient(token: string, timeoutMs: number = 10000): WebClient {
+    return new WebClient(token, {
+        timeout: timeoutMs,
+        retryConfig: {
+            retries: 2,
+            factor: 2,
+            minTimeout: 1000
+        }
+    });
+}
+
+/**
+ * Send Lighthouse results to Slack via API, returning the channel and timestamp of the posted message
  */
 async function sendViaApi(
-    token: string,
+    client: WebClient,
     blocks: SlackBlock[],
     channel?: string,
     title?: string,
-    timeoutMs: number = 10000
-): Promise<void> {
+    threadTs?: string
+): Promise<{ channel?: string; ts?: string }> {
     core.debug(`Sending report to Slack API`);
 
     try {
-        const client = new WebClient(token, {
-            timeout: timeoutMs,
-            retryConfig: {
-                retries: 2,
-                factor: 2,
-                minTimeout: 1000
-            }
-        });
-
         const result = await client.chat.postMessage({
             channel: channel || '#general',
             text: title || 'Lighthouse Test Results',
-            blocks
+            blocks,
+            thread_ts: threadTs
         });
 
         core.debug(`Slack API response: ${JSON.stringify(result)}`);
         core.info('Successfully sent report to Slack via API');
+        return { channel: result.channel, ts: result.ts };
     } catch (error) {
         core.error('Failed to send report to Slack via API');
         if (error instanceof Error) {
@@ -544,26 +1072,655 @@ async function sendViaApi(
 }
 
 /**
- * Send Lighthouse results to Slack
+ * Escape the characters that Slack treats as control characters in mrkdwn
  */
-export async function sendSlackReport(
+function escapeMrkdwn(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Create the blocks of a thread reply with the audit details of one URL/device
+ */
+function createThreadReplyBlocks(result: LighthouseResult, details: ReportDetails | undefined): SlackBlock[] {
+    const deviceLabel = result.deviceType === 'mobile' ? '📱 Mobile' : '💻 Desktop';
+    const scores = sortCategories(result.categories.map(c => getNormalizedCategoryName(c.id)))
+        .map(categoryId => {
+            const category = result.categories.find(c => getNormalizedCategoryName(c.id) === categoryId)!;
+            return `${getCategoryConfig(categoryId).icon} ${getScoreEmoji(category.score)} ${formatPercentage(category.score)}`;
+        });
+
+    const lines = [`*${escapeMrkdwn(result.url)}* · ${deviceLabel}`, scores.join(' · ')];
+
+    const metrics = details?.metrics || result.metrics || {};
+    const metricTexts = Object.keys(METRIC_DEFINITIONS)
+        .filter(id => metrics[id])
+        .map(id => {
+            const value = metrics[id].numericValue;
+            return `${getRatingEmoji(getMetricRating(id, value))} ${METRIC_DEFINITIONS[id].shortTitle} ${formatMetricValue(id, value)}`;
+        });
+    if (metricTexts.length > 0) {
+        lines.push('', '*Metrics:*', metricTexts.join(' · '));
+    }
+
+    if (!details) {
+        lines.push('', '_Detailed audits are not available for this run_');
+        return createTextSections(lines);
+    }
+
+    if (details.opportunities.length > 0) {
+        lines.push('', '*Top opportunities:*');
+        details.opportunities.forEach(opportunity => {
+            const savings = [formatDuration(opportunity.savingsMs || 0)];
+            if (opportunity.savingsBytes) {
+                savings.push(`${Math.round(opportunity.savingsBytes / 1024)} KiB`);
+            }
+            lines.push(`• ${escapeMrkdwn(opportunity.title)} — est. savings ${savings.join(', ')}`);
+        });
+    }
+
+    if (details.failingAudits.length > 0) {
+        lines.push('', '*Top failing audits:*');
+        details.failingAudits.forEach(audit => {
+            const displayValue = audit.displayValue ? ` · ${escapeMrkdwn(audit.displayValue)}` : '';
+            lines.push(`• ${getScoreEmoji(audit.score)} ${escapeMrkdwn(audit.title)} (${escapeMrkdwn(audit.category || '')})${displayValue}`);
+        });
+    } else {
+        lines.push('', '✅ No failing audits');
+    }
+
+    return createTextSections(lines);
+}
+
+/**
+ * Reply in the thread of the summary message with the audit details of each URL/device
+ */
+async function sendThreadReplies(
+    client: WebClient,
+    channel: string,
+    threadTs: string,
+    results: FormattedLighthouseResults
+): Promise<void> {
+    const reports = readLighthouseReports(path.resolve(process.cwd(), 'lighthouse-results'));
+
+    for (const result of results.results) {
+        const report = findLighthouseReport(reports, result.url, result.deviceType);
+        await client.chat.postMessage({
+            channel,
+            thread_ts: threadTs,
+            text: `Details for ${result.url} (${result.deviceType})`,
+            blocks: createThreadReplyBlocks(result, report ? getReportDetails(report) : undefined)
+        });
+    }
+
+    core.info(`Posted ${results.results.length} detail replies in the Slack thread`);
+}
+
+/**
+ * Get the permalinks of the files returned by files.uploadV2, looking them up when missing
+ */
+async function getUploadedPermalinks(client: WebClient, response: any): Promise<Record<string, string>> {
+    const files: any[] = (response?.files || []).flatMap((upload: any) => upload?.files || []);
+    const permalinks: Record<string, string> = {};
+
+    for (const file of files) {
+        let permalink: string | undefined = file.permalink;
+        if (!permalink && file.id) {
+            const info = await client.files.info({ file: file.id });
+            permalink = info.file?.permalink;
+        }
+        const name = file.name || file.title;
+        if (permalink && name) {
+            permalinks[name] = permalink;
+        }
+    }
+
+    return permalinks;
+}
+
+/**
+ * Upload the local HTML reports into the thread of the summary message.
+ * Returns the permalink of each URL/device's report, or of the archive holding it.
+ */
+async function uploadReports(
+    client: WebClient,
+    channel: string,
+    threadTs: string,
     results: FormattedLighthouseResults,
+    options: ReportUploadOptions
+): Promise<ReportLinks> {
+    // The steps of a user flow share the flow report, so each file is uploaded once and linked from all its rows
+    const reportsByFile = new Map<string, LighthouseResult[]>();
+    results.results
+        .filter(result => result.reportUrl && !/^https?:\/\//.test(result.reportUrl) && fs.existsSync(result.reportUrl))
+        .forEach(result => {
+            const filePath = result.reportUrl as string;
+            reportsByFile.set(filePath, [...(reportsByFile.get(filePath) || []), result]);
+        });
+    const reports = Array.from(reportsByFile.entries())
+        .map(([filePath, fileResults]) => ({ results: fileResults, filePath, fileName: path.basename(filePath) }));
+
+    if (reports.length === 0) {
+        core.info('No local HTML reports to upload to Slack');
+        return {};
+    }
+
+    const links: ReportLinks = {};
+    const addLinks = (linkedResults: LighthouseResult[], permalink: string | undefined): void => {
+        if (permalink) {
+            linkedResults.forEach(({ url, deviceType }) => {
+                links[url] = { ...(links[url] || {}), [deviceType]: permalink };
+            });
+        }
+    };
+
+    const withinSizeCap = (fileName: string, data: Buffer): boolean => {
+        if (data.length > options.maxBytes) {
+            core.warning(`Skipping upload of ${fileName} (${Math.round(data.length / 1024)} KiB), it is larger than the size cap`);
+            return false;
+        }
+        return true;
+    };
+
+    if (!options.perFile && options.zip) {
+        const archiveName = 'lighthouse-reports.zip';
+        const archive = createZip(reports.map(report => ({ name: report.fileName, data: fs.readFileSync(report.filePath) })));
+        if (!withinSizeCap(archiveName, archive)) {
+            return {};
+        }
+
+        const response = await client.files.uploadV2({
+            channel_id: channel,
+            thread_ts: threadTs,
+            file: archive,
+            filename: archiveName,
+            title: archiveName
+        });
+        const permalink = (await getUploadedPermalinks(client, response))[archiveName];
+        reports.forEach(report => addLinks(report.results, permalink));
+    } else {
+        const uploads = reports
+            .map(report => {
+                const html = fs.readFileSync(report.filePath);
+                const fileName = options.zip ? `${report.fileName}.zip` : report.fileName;
+                const data = options.zip ? createZip([{ name: report.fileName, data: html }]) : html;
+                return { report, fileName, data };
+            })
+            .filter(upload => withinSizeCap(upload.fileName, upload.data));
+
+        if (options.perFile) {
+            for (const upload of uploads) {
+                const response = await client.files.uploadV2({
+                    channel_id: channel,
+                    thread_ts: threadTs,
+                    file: upload.data,
+                    filename: upload.fileName,
+                    title: upload.fileName
+                });
+                const permalinks = await getUploadedPermalinks(client, response);
+                addLinks(upload.report.results, permalinks[upload.fileName]);
+            }
+        } else if (uploads.length > 0) {
+            const response = await client.files.uploadV2({
+                channel_id: channel,
+                thread_ts: threadTs,
+                file_uploads: uploads.map(upload => ({ file: upload.data, filename: upload.fileName, title: upload.fileName }))
+            });
+            const permalinks = await getUploadedPermalinks(client, response);
+            uploads.forEach(upload => addLinks(upload.report.results, permalinks[upload.fileName]));
+        }
+    }
+
+    core.info(`Uploaded ${Object.values(links).reduce((sum, deviceLinks) => sum + Object.keys(deviceLinks).length, 0)} HTML reports to Slack`);
+    return links;
+}
+
+interface ProgressMessage {
+    client: WebClient;
+    channel: string;
+    ts: string;
+    title: string;
+    startedAt: number;
+    entries: Map<string, TestProgressEvent>;
+    lastUpdate: number;
+    dirty: boolean;
+    closed: boolean;
+    pending?: Promise<void>;
+}
+
+const PROGRESS_UPDATE_INTERVAL_MS = 3000;
+
+const PROGRESS_ICONS: Record<TestProgressStatus, string> = {
+    queued: '🕒',
+    running: '⏳',
+    done: '✅',
+    failed: '❌'
+};
+
+// The running message that the final report replaces, set while tests are in progress
+let progressMessage: ProgressMessage | undefined;
+
+/**
+ * Describe the state of one URL/device, e.g. `📱 ⏳ run 2/5`
+ */
+function formatProgressEntry(event: TestProgressEvent): string {
+    const deviceIcon = event.deviceType === 'mobile' ? '📱' : '💻';
+    const label = event.status === 'running' && event.totalRuns && event.totalRuns > 1
+        ? `run ${event.run}/${event.totalRuns}`
+        : event.status;
+    return `${deviceIcon} ${PROGRESS_ICONS[event.status]} ${label}`;
+}
+
+/**
+ * Create the blocks of the running message with the overall counts and the state of each URL
+ */
+function createProgressBlocks(progress: ProgressMessage): SlackBlock[] {
+    const entries = Array.from(progress.entries.values());
+    const count = (status: TestProgressStatus): number => entries.filter(entry => entry.status === status).length;
+    const finished = count('done') + count('failed');
+    const runUrl = getWorkflowRunUrl();
+
+    const lines: string[] = [];
+    const byUrl = new Map<string, TestProgressEvent[]>();
+    entries.forEach(entry => byUrl.set(entry.url, [...(byUrl.get(entry.url) || []), entry]));
+    byUrl.forEach((urlEntries, url) => {
+        lines.push(`${escapeMrkdwn(url)} — ${urlEntries.map(formatProgressEntry).join(' · ')}`);
+    });
+
+    return [
+        {
+            type: 'header',
+            text: { type: 'plain_text', text: progress.title, emoji: true }
+        },
+        {
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: `⏳ *Running Lighthouse tests:* ${finished}/${entries.length} finished · ` +
+                    `${count('running')} in progress · ${count('queued')} queued` +
+                    (count('failed') > 0 ? ` · ${count('failed')} failed` : '')
+            }
+        },
+        ...createTextSections(lines).slice(0, SLACK_MAX_BLOCKS - 3),
+        {
+            type: 'context',
+            elements: [{
+                type: 'mrkdwn',
+                text: `Running for ${formatDuration(Date.now() - progress.startedAt)}` +
+                    (runUrl ? ` · <${runUrl}|View workflow run>` : '')
+            }]
+        }
+    ];
+}
+
+/**
+ * Update the running message, at most once per interval so that chat.update stays within Slack's rate limits
+ */
+function scheduleProgressUpdate(progress: ProgressMessage): void {
+    progress.dirty = true;
+    if (progress.pending) {
+        return;
+    }
+
+    progress.pending = (async () => {
+        while (progress.dirty && !progress.closed) {
+            const wait = progress.lastUpdate + PROGRESS_UPDATE_INTERVAL_MS - Date.now();
+            if (wait > 0) {
+                await new Promise(resolve => setTimeout(resolve, wait));
+                if (progress.closed) {
+                    break;
+                }
+            }
+
+            progress.dirty = false;
+            progress.lastUpdate = Date.now();
+            try {
+                await progress.client.chat.update({
+                    channel: progress.channel,
+                    ts: progress.ts,
+                    text: progress.title,
+                    blocks: createProgressBlocks(progress)
+                });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to update the Slack progress message: ${errorMessage}`);
+            }
+        }
+    })().finally(() => {
+        progress.pending = undefined;
+    });
+}
+
+/**
+ * Stop updating the running message and hand it over, waiting for an update in flight to finish
+ */
+async function takeProgressMessage(): Promise<ProgressMessage | undefined> {
+    const progress = progressMessage;
+    progressMessage = undefined;
+    if (progress) {
+        progress.closed = true;
+        await progress.pending;
+    }
+    return progress;
+}
+
+/**
+ * Replace the running message with the report, posting a new message if it can no longer be edited
+ */
+async function replaceProgressMessage(
+    client: WebClient,
+    progress: ProgressMessage,
+    blocks: SlackBlock[],
+    channel?: string,
+    title?: string
+): Promise<{ channel?: string; ts?: string }> {
+    try {
+        await client.chat.update({
+            channel: progress.channel,
+            ts: progress.ts,
+            text: title || 'Lighthouse Test Results',
+            blocks
+        });
+        core.info('Successfully replaced the Slack progress message with the report');
+        return { channel: progress.channel, ts: progress.ts };
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        core.warning(`⚠️ Failed to replace the Slack progress message, posting a new message: ${errorMessage}`);
+        return sendViaApi(client, blocks, channel, title);
+    }
+}
+
+/**
+ * Post a running message to Slack and return a callback that keeps it up to date.
+ * Only used with a bot token, since messages sent through webhooks cannot be edited.
+ */
+export async function startSlackProgress(
+    urls: string[],
+    deviceTypes: string[],
     title: string = 'Lighthouse Test Results'
-): Promise<void> {
+): Promise<ProgressCallback | undefined> {
+    const slackToken = core.getInput('slack_token');
+    if (!slackToken || core.getInput('slack_webhook_url') || core.getInput('slack_progress') === 'false') {
+        return undefined;
+    }
+    // With routes the report may go to other channels, so only post progress to an explicit channel
+    if (core.getInput('slack_routes') && !core.getInput('slack_channel')) {
+        return undefined;
+    }
+
+    const progress: ProgressMessage = {
+        client: createSlackClient(slackToken, parseInt(core.getInput('slack_timeout_ms') || '10000')),
+        channel: core.getInput('slack_channel') || '#general',
+        ts: '',
+        title,
+        startedAt: Date.now(),
+        entries: new Map(),
+        lastUpdate: Date.now(),
+        dirty: false,
+        closed: false
+    };
+    urls.forEach(url => deviceTypes.forEach(deviceType => {
+        progress.entries.set(`${url}|${deviceType}`, { url, deviceType, status: 'queued' });
+    }));
+
+    try {
+        const message = await progress.client.chat.postMessage({
+            channel: progress.channel,
+            text: title,
+            blocks: createProgressBlocks(progress)
+        });
+        if (!message.channel || !message.ts) {
+            return undefined;
+        }
+        progress.channel = message.channel;
+        progress.ts = message.ts;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        core.warning(`⚠️ Failed to post the Slack progress message: ${errorMessage}`);
+        return undefined;
+    }
+
+    progressMessage = progress;
+    core.info('📡 Posted Slack progress message, it will be replaced by the final report');
+
+    return event => {
+        if (progress.closed) {
+            return;
+        }
+        progress.entries.set(`${event.url}|${event.deviceType}`, event);
+        scheduleProgressUpdate(progress);
+    };
+}
+
+/**
+ * Replace a running message that no report took over, e.g. when the tests failed
+ */
+export async function finishSlackProgress(text: string): Promise<void> {
+    const progress = await takeProgressMessage();
+    if (!progress) {
+        return;
+    }
+
+    try {
+        await progress.client.chat.update({
+            channel: progress.channel,
+            ts: progress.ts,
+            text,
+            blocks: [
+                {
+                    type: 'header',
+                    text: { type: 'plain_text', text: progress.title, emoji: true }
+                },
+                {
+                    type: 'section',
+                    text: { type: 'mrkdwn', text }
+                }
+            ]
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        core.warning(`⚠️ Failed to update the Slack progress message: ${errorMessage}`);
+    }
+}
+
+/**
+ * Delete the running message, e.g. when notify_on skips the report and the channel should stay quiet
+ */
+export async function deleteSlackProgress(): Promise<void> {
+    const progress = await takeProgressMessage();
+    if (!progress) {
+        return;
+    }
+
+    try {
+        await progress.client.chat.delete({ channel: progress.channel, ts: progress.ts });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        core.warning(`⚠️ Failed to delete the Slack progress message: ${errorMessage}`);
+    }
+}
+
+/**
+ * Send a one-line notice instead of the full report, replacing the running message when there is one
+ */
+export async function sendSlackNotice(text: string): Promise<void> {
+    if (progressMessage) {
+        await finishSlackProgress(text);
+        return;
+    }
+
     const webhookUrl = core.getInput('slack_webhook_url');
     const slackToken = core.getInput('slack_token');
     const channel = core.getInput('slack_channel');
     const timeoutMs = parseInt(core.getInput('slack_timeout_ms') || '10000');
+    const blocks: SlackBlock[] = [{ type: 'section', text: { type: 'mrkdwn', text } }];
+
+    if (webhookUrl) {
+        await sendViaWebhook(webhookUrl, blocks, channel, timeoutMs);
+    } else if (slackToken) {
+        await sendViaApi(createSlackClient(slackToken, timeoutMs), blocks, channel, text);
+    }
+}
+
+/**
+ * Send Lighthouse results to one Slack destination
+ */
+async function sendSlackReportTo(
+    destination: SlackDestination,
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[]
+): Promise<void> {
+    const { webhookUrl, channel } = destination;
+    const slackToken = core.getInput('slack_token');
+    const timeoutMs = parseInt(core.getInput('slack_timeout_ms') || '10000');
+    const showMetrics = core.getInput('slack_show_metrics') === 'true';
+    const threadDetails = core.getInput('slack_thread_details') !== 'false';
+    const uploadReportFiles = core.getInput('slack_upload_reports') === 'true';
+    const uploadOptions: ReportUploadOptions = {
+        zip: core.getInput('slack_upload_zip') === 'true',
+        perFile: core.getInput('slack_upload_per_file') !== 'false',
+        maxBytes: parseFloat(core.getInput('slack_upload_max_mb') || '10') * 1024 * 1024
+    };
+
+    let owners: SlackOwner[] = [];
+    if (core.getInput('slack_mention_on_failure') === 'true') {
+        try {
+            owners = parseSlackOwners(core.getInput('slack_owners'));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            core.warning(`⚠️ Invalid slack_owners, sending the report without mentions: ${errorMessage}`);
+        }
+    }
 
     core.info('Preparing to send report to Slack');
 
-    const blocks = createSlackBlocks(results, title);
+    const templatePath = core.getInput('slack_template');
+    const createMessages = (reportLinks: ReportLinks = {}): SlackBlock[][] => {
+        if (templatePath) {
+            try {
+                return createTemplateMessages(loadSlackTemplate(templatePath), results, title, assertionResults, reportLinks, owners);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to render slack_template, using the default layout: ${errorMessage}`);
+            }
+        }
+        return createSlackMessages(results, title, assertionResults, showMetrics, reportLinks, owners);
+    };
+
+    const messages = createMessages();
+    const partTitle = (index: number): string =>
+        messages.length > 1 ? `${title} (part ${index + 1}/${messages.length})` : title;
 
     if (webhookUrl) {
-        await sendViaWebhook(webhookUrl, blocks, channel, timeoutMs);
+        for (const blocks of messages) {
+            await sendViaWebhook(webhookUrl, blocks, channel, timeoutMs);
+        }
     } else if (slackToken) {
-        await sendViaApi(slackToken, blocks, channel, title, timeoutMs);
+        const client = createSlackClient(slackToken, timeoutMs);
+        const progress = destination.replaceProgress ? await takeProgressMessage() : undefined;
+        const message = progress
+            ? await replaceProgressMessage(client, progress, messages[0], channel, partTitle(0))
+            : await sendViaApi(client, messages[0], channel, partTitle(0));
+        const messageTs = [message.ts];
+
+        // Editing a message does not notify the people it mentions, so ping them in the thread instead
+        const mentions = Array.from(getFailingUrls(results, assertionResults).keys()).flatMap(url => getOwnerMentions(url, owners));
+        if (progress && message.ts === progress.ts && mentions.length > 0) {
+            await sendViaApi(client, [{
+                type: 'section',
+                text: { type: 'mrkdwn', text: `🔴 Lighthouse thresholds failed ${Array.from(new Set(mentions)).join(' ')}` }
+            }], message.channel, title, message.ts);
+        }
+
+        // Continuation parts go into the thread of the first message to keep the channel tidy
+        for (let i = 1; i < messages.length && message.channel && message.ts; i++) {
+            const part = await sendViaApi(client, messages[i], message.channel, partTitle(i), message.ts);
+            messageTs.push(part.ts);
+        }
+
+        if (threadDetails && message.channel && message.ts) {
+            try {
+                await sendThreadReplies(client, message.channel, message.ts, results);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to post audit details in the Slack thread: ${errorMessage}`);
+            }
+        }
+
+        if (uploadReportFiles && message.channel && message.ts) {
+            try {
+                const uploadClient = createSlackClient(slackToken, Math.max(timeoutMs, 60000));
+                const reportLinks = await uploadReports(uploadClient, message.channel, message.ts, results, uploadOptions);
+                if (Object.keys(reportLinks).length > 0) {
+                    const linkedMessages = createMessages(reportLinks);
+                    for (let i = 0; i < linkedMessages.length && i < messageTs.length; i++) {
+                        const ts = messageTs[i];
+                        if (!ts) {
+                            continue;
+                        }
+                        await client.chat.update({
+                            channel: message.channel,
+                            ts,
+                            text: partTitle(i),
+                            blocks: linkedMessages[i]
+                        });
+                    }
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                core.warning(`⚠️ Failed to upload HTML reports to Slack: ${errorMessage}`);
+            }
+        }
     } else {
         throw new Error('Either slack_webhook_url or slack_token must be provided');
     }
 }
+
+/**
+ * Send Lighthouse results to Slack. With slack_routes, each route receives the results that match it;
+ * a failing route does not stop the others.
+ */
+export async function sendSlackReport(
+    results: FormattedLighthouseResults,
+    title: string = 'Lighthouse Test Results',
+    assertionResults: AssertionResult[] = []
+): Promise<void> {
+    const routes = parseSlackRoutes(core.getInput('slack_routes'));
+    if (routes.length === 0) {
+        await sendSlackReportTo({
+            webhookUrl: core.getInput('slack_webhook_url'),
+            channel: core.getInput('slack_channel'),
+            replaceProgress: true
+        }, results, title, assertionResults);
+        return;
+    }
+
+    // Routes with only a channel need the bot token, and fall back to the default webhook without one
+    const defaultWebhookUrl = core.getInput('slack_token') ? '' : core.getInput('slack_webhook_url');
+    const errors: string[] = [];
+
+    for (const [index, route] of routes.entries()) {
+        const name = route.channel || `webhook route ${index + 1}`;
+        const routed = getRouteResults(route, results, assertionResults);
+        if (!routed) {
+            core.info(`No results match Slack route ${name}, skipping`);
+            continue;
+        }
+
+        core.info(`Sending ${routed.results.results.length} results to Slack route ${name}`);
+        try {
+            await sendSlackReportTo({
+                webhookUrl: route.webhookUrl || defaultWebhookUrl,
+                channel: route.channel,
+                replaceProgress: false
+            }, routed.results, route.title || title, routed.assertionResults);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            errors.push(`${name}: ${errorMessage}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Failed to send to ${errors.length} Slack routes: ${errors.join('; ')}`);
+    }
+}
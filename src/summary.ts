@@ -0,0 +1,179 @@
+import * as core from '@actions/core';
+import { SummaryTableRow } from '@actions/core/lib/summary';
+import { AssertionResult, formatAssertionResult } from './assertions';
+import {
+    FormattedLighthouseResults,
+    LighthouseResult,
+    formatScore,
+    formatScoreDelta,
+    getCategoryConfig,
+    getKeyInsights,
+    getNormalizedCategoryName,
+    getScoreEmoji,
+    getWorkflowRunUrl,
+    sortCategories
+} from './utils';
+
+/**
+ * Escape text for use inside the HTML that core.summary renders
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Create a link to the report of a single result.
+ * Local HTML reports are part of the uploaded artifact, so they link to the run's artifacts.
+ */
+function formatReportLink(result: LighthouseResult): string {
+    if (!result.reportUrl) {
+        return '-';
+    }
+
+    if (/^https?:\/\//.test(result.reportUrl)) {
+        return `<a href="${escapeHtml(result.reportUrl)}">PageSpeed Insights</a>`;
+    }
+
+    const fileName = escapeHtml(result.reportUrl.split(/[\\/]/).pop() || result.reportUrl);
+    const runUrl = getWorkflowRunUrl();
+    return runUrl ? `<a href="${escapeHtml(runUrl)}#artifacts">${fileName}</a>` : fileName;
+}
+
+/**
+ * Build the category columns and score cells shared by the job summary and the pull request comment
+ */
+export function getScoreTableData(results: FormattedLighthouseResults): {
+    categoryHeaders: string[];
+    rows: Array<{ result: LighthouseResult; scoreCells: string[] }>;
+} {
+    const categories = sortCategories([
+        ...new Set(results.results.flatMap(r => r.categories.map(c => getNormalizedCategoryName(c.id))))
+    ]);
+
+    const categoryHeaders = categories.map(category => {
+        const config = getCategoryConfig(category);
+        return `${config.icon} ${config.title}`;
+    });
+
+    const rows = results.results.map(result => {
+        const baselineScores = results.summary.baselineScores?.[result.url]?.[result.deviceType];
+
+        const scoreCells = categories.map(category => {
+            const score = result.categories.find(c => getNormalizedCategoryName(c.id) === category);
+            if (!score) {
+                return '-';
+            }
+            const previousScore = baselineScores?.[score.id];
+            const delta = previousScore !== undefined ? ` (${formatScoreDelta(score.score, previousScore)})` : '';
+            return `${getScoreEmoji(score.score)} ${formatScore(score.score)}${delta}`;
+        });
+
+        return { result, scoreCells };
+    });
+
+    return { categoryHeaders, rows };
+}
+
+/**
+ * Create the score table with one row per URL and device
+ */
+function createScoreTable(results: FormattedLighthouseResults): SummaryTableRow[] {
+    const { categoryHeaders, rows } = getScoreTableData(results);
+
+    const header: SummaryTableRow = [
+        { data: 'URL', header: true },
+        { data: 'Device', header: true },
+        ...categoryHeaders.map(data => ({ data, header: true })),
+        { data: 'Report', header: true }
+    ];
+
+    return [
+        header,
+        ...rows.map(({ result, scoreCells }) => [
+            escapeHtml(result.url),
+            result.deviceType === 'mobile' ? '📱 Mobile' : '💻 Desktop',
+            ...scoreCells,
+            formatReportLink(result)
+        ])
+    ];
+}
+
+/**
+ * Write the results as a Markdown report to the GitHub Actions job summary
+ */
+export async function writeJobSummary(
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[] = []
+): Promise<void> {
+    if (!process.env.GITHUB_STEP_SUMMARY) {
+        core.debug('GITHUB_STEP_SUMMARY is not set, skipping job summary');
+        return;
+    }
+
+    const summary = core.summary
+        .addHeading(escapeHtml(title), 2)
+        .addRaw(`Tested ${results.summary.totalUrls} URLs with ${results.summary.totalTests} tests`, true)
+        .addHeading('Scores', 3)
+        .addTable(createScoreTable(results));
+
+    const insights = getKeyInsights(results);
+    if (insights.length > 0) {
+        summary
+            .addHeading('Key Insights', 3)
+            .addList(insights.map(insight => `<strong>${insight.label}:</strong> ${escapeHtml(insight.text)}`));
+    }
+
+    const regressions = results.summary.regressions || [];
+    if (regressions.length > 0) {
+        summary
+            .addHeading('Regressions', 3)
+            .addList(regressions.map(regression =>
+                escapeHtml(`${regression.url} (${regression.deviceType}) ${getCategoryConfig(regression.category).title}: ` +
+                    `${formatScore(regression.previousScore)} → ${formatScore(regression.currentScore)} ` +
+                    `(${formatScoreDelta(regression.currentScore, regression.previousScore)})`)
+            ));
+    }
+
+    const failedAssertions = assertionResults.filter(result => !result.passed);
+    if (failedAssertions.length > 0) {
+        summary
+            .addHeading('Failed Assertions', 3)
+            .addList(failedAssertions.map(result =>
+                `${result.level === 'error' ? '❌' : '⚠️'} ${escapeHtml(formatAssertionResult(result))}`
+            ));
+    }
+
+    if (results.failures && results.failures.length > 0) {
+        summary
+            .addHeading('Failed Runs', 3)
+            .addTable([
+                [
+                    { data: 'URL', header: true },
+                    { data: 'Device', header: true },
+                    { data: 'Error', header: true }
+                ],
+                ...results.failures.map(failure => [
+                    escapeHtml(failure.url),
+                    failure.deviceType,
+                    escapeHtml(failure.error)
+                ])
+            ]);
+    }
+
+    const runUrl = getWorkflowRunUrl();
+    if (runUrl) {
+        summary
+            .addSeparator()
+            .addRaw('Full Lighthouse reports are in the ')
+            .addLink('lighthouse-reports artifact', `${runUrl}#artifacts`)
+            .addEOL();
+    }
+
+    await summary.write();
+    core.info('Job summary written');
+}
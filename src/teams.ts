@@ -0,0 +1,185 @@
+import * as core from '@actions/core';
+import { AssertionResult } from './assertions';
+import { getScoreTableData } from './summary';
+import {
+    FormattedLighthouseResults,
+    formatScore,
+    getCategoryConfig,
+    getKeyInsights,
+    getNormalizedCategoryName,
+    getWorkflowRunUrl,
+    sortCategories
+} from './utils';
+
+type AdaptiveElement = Record<string, any>;
+
+/**
+ * Create a small, muted text block
+ */
+function createNote(text: string): AdaptiveElement {
+    return { type: 'TextBlock', text, wrap: true, size: 'Small', isSubtle: true };
+}
+
+/**
+ * Generate the legend explaining the category icons and devices
+ */
+function generateLegend(results: FormattedLighthouseResults): string {
+    const categories = sortCategories([
+        ...new Set(results.results.flatMap(r => r.categories.map(c => getNormalizedCategoryName(c.id))))
+    ]);
+
+    const legend = categories.map(category => {
+        const config = getCategoryConfig(category);
+        return `${config.icon} ${config.title}`;
+    });
+
+    return `Legend: ${legend.join(' • ')} • 📱 Mobile • 💻 Desktop`;
+}
+
+/**
+ * Create the score table with one row per URL and device
+ */
+function createScoreTable(results: FormattedLighthouseResults): AdaptiveElement {
+    const { categoryHeaders, rows } = getScoreTableData(results);
+
+    const createRow = (cells: string[], isHeader = false): AdaptiveElement => ({
+        type: 'TableRow',
+        style: isHeader ? 'accent' : undefined,
+        cells: cells.map(text => ({
+            type: 'TableCell',
+            items: [{ type: 'TextBlock', text, wrap: true, weight: isHeader ? 'Bolder' : 'Default' }]
+        }))
+    });
+
+    return {
+        type: 'Table',
+        gridStyle: 'accent',
+        firstRowAsHeaders: true,
+        columns: [{ width: 3 }, { width: 1 }, ...categoryHeaders.map(() => ({ width: 2 }))],
+        rows: [
+            createRow(['URL', 'Device', ...categoryHeaders], true),
+            ...rows.map(({ result, scoreCells }) =>
+                createRow([result.url, result.deviceType === 'mobile' ? '📱' : '💻', ...scoreCells])
+            )
+        ]
+    };
+}
+
+/**
+ * Create the Adaptive Card with the same sections as the Slack report
+ */
+function createAdaptiveCard(
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[]
+): AdaptiveElement {
+    const body: AdaptiveElement[] = [
+        { type: 'TextBlock', text: title, size: 'Large', weight: 'Bolder', wrap: true },
+        {
+            type: 'TextBlock',
+            text: `**Summary:** Tested ${results.summary.totalUrls} URLs with ${results.summary.totalTests} tests` +
+                (results.summary.baselineScores ? ' · Changes shown against baseline in points' : ''),
+            wrap: true
+        },
+        createNote(generateLegend(results)),
+        createScoreTable(results)
+    ];
+
+    const insights = getKeyInsights(results);
+    if (insights.length > 0) {
+        body.push(
+            { type: 'TextBlock', text: 'Key Insights', weight: 'Bolder', separator: true, spacing: 'Medium' },
+            { type: 'FactSet', facts: insights.map(insight => ({ title: insight.label, value: insight.text })) }
+        );
+    }
+
+    const regressions = results.summary.regressions || [];
+    if (regressions.length > 0) {
+        body.push(
+            { type: 'TextBlock', text: '📉 Regressions', weight: 'Bolder', separator: true, spacing: 'Medium' },
+            {
+                type: 'TextBlock',
+                wrap: true,
+                text: regressions.map(regression =>
+                    `- ${regression.url} (${regression.deviceType}) ${getCategoryConfig(regression.category).title}: ` +
+                    `${formatScore(regression.previousScore)} → ${formatScore(regression.currentScore)}`
+                ).join('\n')
+            }
+        );
+    }
+
+    const failedErrors = assertionResults.filter(result => !result.passed && result.level === 'error');
+    if (failedErrors.length > 0) {
+        body.push({ type: 'TextBlock', text: `❌ ${failedErrors.length} assertion(s) failed`, color: 'Attention', wrap: true });
+    }
+
+    body.push(createNote(`Generated by Lighthouse CI Slack Reporter · ${new Date().toISOString()}`));
+
+    const runUrl = getWorkflowRunUrl();
+
+    return {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.5',
+        msteams: { width: 'Full' },
+        body,
+        actions: runUrl ? [{ type: 'Action.OpenUrl', title: 'Download full report from GitHub', url: runUrl }] : []
+    };
+}
+
+/**
+ * Post the card to a Teams incoming webhook or Workflows webhook
+ */
+async function sendViaWebhook(webhookUrl: string, card: AdaptiveElement, timeoutMs: number = 10000): Promise<void> {
+    core.debug('Sending report to Teams webhook');
+
+    try {
+        const response = await fetch(webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                type: 'message',
+                attachments: [{
+                    contentType: 'application/vnd.microsoft.card.adaptive',
+                    contentUrl: null,
+                    content: card
+                }]
+            }),
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+
+        if (!response.ok) {
+            throw new Error(`Teams webhook error: ${response.status} - ${await response.text()}`);
+        }
+
+        core.info('Successfully sent report to Teams via webhook');
+    } catch (error) {
+        core.error('Failed to send report to Teams via webhook');
+        if (error instanceof Error) {
+            core.error(error.message);
+            if (error.name === 'TimeoutError') {
+                core.error(`Request timed out after ${timeoutMs}ms. Check your network or Teams service status.`);
+            }
+        }
+        throw error;
+    }
+}
+
+/**
+ * Send Lighthouse results to Microsoft Teams
+ */
+export async function sendTeamsReport(
+    results: FormattedLighthouseResults,
+    title: string = 'Lighthouse Test Results',
+    assertionResults: AssertionResult[] = []
+): Promise<void> {
+    const webhookUrl = core.getInput('teams_webhook_url');
+    const timeoutMs = parseInt(core.getInput('teams_timeout_ms') || '10000');
+
+    if (!webhookUrl) {
+        throw new Error('teams_webhook_url must be provided');
+    }
+
+    core.info('Preparing to send report to Teams');
+    await sendViaWebhook(webhookUrl, createAdaptiveCard(results, title, assertionResults), timeoutMs);
+}
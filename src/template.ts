@@ -0,0 +1,133 @@
+/**
+ * A small Mustache-style template renderer for JSON payloads.
+ *
+ * - `{{path.to.value}}` inserts a value escaped for use inside a JSON string
+ * - `{{{path.to.value}}}` inserts a value as-is, with objects and arrays as JSON
+ * - `{{#path}}...{{/path}}` repeats the block for each array item, or renders it once when the value is truthy
+ * - `{{^path}}...{{/path}}` renders the block when the value is falsy or an empty array
+ * - `{{.}}` is the current item; `@index`, `@first` and `@last` are available inside loops
+ */
+
+type TemplateContext = Array<Record<string, any>>;
+
+const TAG_PATTERN = /\{\{(\{?)\s*([#^/]?)\s*([^{}]+?)\s*\}?\}\}/g;
+
+interface TemplateToken {
+    type: 'text' | 'value' | 'raw' | 'section' | 'inverted';
+    value: string;
+    children?: TemplateToken[];
+}
+
+/**
+ * Parse a template into a tree of text, values and sections
+ */
+function parseTemplate(template: string): TemplateToken[] {
+    const root: TemplateToken[] = [];
+    const stack: Array<{ name: string; tokens: TemplateToken[] }> = [{ name: '', tokens: root }];
+    let lastIndex = 0;
+
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        const [tag, rawBrace, modifier, name] = match;
+        const current = stack[stack.length - 1];
+
+        if (match.index! > lastIndex) {
+            current.tokens.push({ type: 'text', value: template.slice(lastIndex, match.index) });
+        }
+        lastIndex = match.index! + tag.length;
+
+        if (modifier === '#' || modifier === '^') {
+            const section: TemplateToken = { type: modifier === '#' ? 'section' : 'inverted', value: name, children: [] };
+            current.tokens.push(section);
+            stack.push({ name, tokens: section.children! });
+        } else if (modifier === '/') {
+            if (stack.length === 1 || current.name !== name) {
+                throw new Error(`Unexpected closing tag {{/${name}}} in template`);
+            }
+            stack.pop();
+        } else {
+            current.tokens.push({ type: rawBrace ? 'raw' : 'value', value: name });
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Unclosed section {{#${stack[stack.length - 1].name}}} in template`);
+    }
+
+    if (lastIndex < template.length) {
+        root.push({ type: 'text', value: template.slice(lastIndex) });
+    }
+    return root;
+}
+
+/**
+ * Look up a dotted path, starting from the innermost context that has its first segment
+ */
+function lookup(context: TemplateContext, name: string): any {
+    if (name === '.') {
+        return context[context.length - 1]['.'];
+    }
+
+    const [first, ...rest] = name.split('.');
+    for (let i = context.length - 1; i >= 0; i--) {
+        const scope = context[i];
+        const base = scope['.'] !== null && typeof scope['.'] === 'object' && first in scope['.']
+            ? scope['.'][first]
+            : scope[first];
+        if (base !== undefined || first in scope) {
+            return rest.reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), base);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Convert a value to text, escaping it for use inside a JSON string unless it is raw
+ */
+function stringify(value: any, raw: boolean): string {
+    if (value === undefined || value === null) {
+        return raw ? 'null' : '';
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return raw ? String(value) : JSON.stringify(String(value)).slice(1, -1);
+}
+
+/**
+ * Render a list of tokens against the context stack
+ */
+function renderTokens(tokens: TemplateToken[], context: TemplateContext): string {
+    return tokens.map(token => {
+        switch (token.type) {
+            case 'text':
+                return token.value;
+            case 'value':
+            case 'raw':
+                return stringify(lookup(context, token.value), token.type === 'raw');
+            case 'section': {
+                const value = lookup(context, token.value);
+                if (Array.isArray(value)) {
+                    return value.map((item, index) => renderTokens(token.children!, [
+                        ...context,
+                        { '.': item, '@index': index, '@first': index === 0, '@last': index === value.length - 1 }
+                    ])).join('');
+                }
+                if (!value) {
+                    return '';
+                }
+                return renderTokens(token.children!, typeof value === 'object' ? [...context, { '.': value }] : context);
+            }
+            case 'inverted': {
+                const value = lookup(context, token.value);
+                return !value || (Array.isArray(value) && value.length === 0) ? renderTokens(token.children!, context) : '';
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Render a template against a view object
+ */
+export function renderTemplate(template: string, view: Record<string, any>): string {
+    return renderTokens(parseTemplate(template), [{ '.': view }]);
+}
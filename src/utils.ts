@@ -1,4 +1,6 @@
 import * as core from '@actions/core';
+import * as path from 'path';
+import { parseConcurrency } from './scheduler';
 
 export interface LighthouseCategory {
     id: string;
@@ -6,15 +8,85 @@ export interface LighthouseCategory {
     score: number;
 }
 
+export interface LighthouseAudit {
+    id: string;
+    title: string;
+    score: number | null;
+    numericValue?: number;
+    itemCount?: number;
+}
+
+export interface LighthouseMetric {
+    id: string;
+    title: string;
+    numericValue: number;
+    score: number | null;
+}
+
+export type MetricRating = 'good' | 'needs-improvement' | 'poor';
+
 export interface LighthouseResult {
     url: string;
     deviceType: string;
     categories: LighthouseCategory[];
+    metrics?: Record<string, LighthouseMetric>;
+    audits?: Record<string, LighthouseAudit>;
+    runScores?: Record<string, number[]>;
     reportUrl?: string;
 }
 
+export interface LighthouseTestFailure {
+    url: string;
+    deviceType: string;
+    error: string;
+}
+
+export type TestProgressStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface TestProgressEvent {
+    url: string;
+    deviceType: string;
+    status: TestProgressStatus;
+    run?: number;
+    totalRuns?: number;
+}
+
+export type ProgressCallback = (event: TestProgressEvent) => void;
+
+export interface CategoryData {
+    title: string;
+    icon: string;
+}
+
+export interface KeyInsight {
+    label: string;
+    text: string;
+}
+
+export interface ScoreRegression {
+    url: string;
+    deviceType: string;
+    category: string;
+    previousScore: number;
+    currentScore: number;
+}
+
+export interface HistoryEntry {
+    timestamp: string;
+    sha?: string;
+    ref?: string;
+    runId?: string;
+    results: LighthouseResult[];
+}
+
+export interface UrlTrend {
+    scores: number[];
+    sevenDayAverage: number;
+}
+
 export interface FormattedLighthouseResults {
     results: LighthouseResult[];
+    failures?: LighthouseTestFailure[];
     summary: {
         totalUrls: number;
         totalTests: number;
@@ -23,9 +95,172 @@ export interface FormattedLighthouseResults {
         scoresByUrl: Record<string, Record<string, number>>;
         minScores: Record<string, number>;
         maxScores: Record<string, number>;
+        baselineScores?: Record<string, Record<string, Record<string, number>>>;
+        baselineAverageScores?: Record<string, number>;
+        regressions?: ScoreRegression[];
+        trends?: Record<string, UrlTrend>;
+    };
+}
+
+export interface BaselineOptions {
+    results: LighthouseResult[];
+    regressionThreshold: number;
+}
+
+export interface FormatOptions {
+    baseline?: BaselineOptions;
+    history?: HistoryEntry[];
+    historySize?: number;
+    failures?: LighthouseTestFailure[];
+}
+
+const categoryConfig: Record<string, CategoryData> = {
+    'performance': { title: 'Performance', icon: '⚡️' },
+    'accessibility': { title: 'Accessibility', icon: '♿️' },
+    'best-practices': { title: 'Best Practices', icon: '🙌' },
+    'bestpractices': { title: 'Best Practices', icon: '🙌' },
+    'seo': { title: 'SEO', icon: '🔍' },
+    'pwa': { title: 'PWA', icon: '📱' }
+};
+
+/**
+ * Core Web Vitals and lab metrics extracted from the Lighthouse audits, with the
+ * good / poor thresholds published on web.dev (TBT and Speed Index use Lighthouse's mobile scoring curve)
+ */
+export const METRIC_DEFINITIONS: Record<string, { title: string; shortTitle: string; good: number; poor: number }> = {
+    'largest-contentful-paint': { title: 'Largest Contentful Paint', shortTitle: 'LCP', good: 2500, poor: 4000 },
+    'cumulative-layout-shift': { title: 'Cumulative Layout Shift', shortTitle: 'CLS', good: 0.1, poor: 0.25 },
+    'total-blocking-time': { title: 'Total Blocking Time', shortTitle: 'TBT', good: 200, poor: 600 },
+    'first-contentful-paint': { title: 'First Contentful Paint', shortTitle: 'FCP', good: 1800, poor: 3000 },
+    'speed-index': { title: 'Speed Index', shortTitle: 'SI', good: 3400, poor: 5800 },
+    'server-response-time': { title: 'Time to First Byte', shortTitle: 'TTFB', good: 800, poor: 1800 }
+};
+
+/**
+ * Get emoji for a Lighthouse score using Unicode emoji
+ */
+export function getScoreEmoji(score: number): string {
+    if (score >= 0.9) return '🟢';
+    if (score >= 0.5) return '🟡';
+    return '🔴';
+}
+
+/**
+ * Get configuration for a category
+ */
+export function getCategoryConfig(categoryName: string): CategoryData {
+    const normalized = getNormalizedCategoryName(categoryName);
+    return categoryConfig[normalized] || {
+        title: categoryName.charAt(0).toUpperCase() + categoryName.slice(1),
+        icon: '📊'
+    };
+}
+
+/**
+ * Normalize category name for consistent handling
+ */
+export function getNormalizedCategoryName(name: string): string {
+    if (!name) return 'unknown';
+
+    name = name.toLowerCase().trim();
+
+    if (name === 'bestpractices' || name === 'best practices') {
+        return 'best-practices';
+    }
+
+    return name;
+}
+
+/**
+ * Sort categories in the order used by the reports
+ */
+export function sortCategories(categories: string[]): string[] {
+    const order = ['performance', 'seo', 'accessibility', 'best-practices'];
+    return [...categories].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+}
+
+/**
+ * Get the URL of the current workflow run, when running in GitHub Actions
+ */
+export function getWorkflowRunUrl(): string | undefined {
+    if (!process.env.GITHUB_REPOSITORY || !process.env.GITHUB_RUN_ID) {
+        return undefined;
+    }
+    const serverUrl = process.env.GITHUB_SERVER_URL || 'https://github.com';
+    return `${serverUrl}/${process.env.GITHUB_REPOSITORY}/actions/runs/${process.env.GITHUB_RUN_ID}`;
+}
+
+/**
+ * Import a module with a native dynamic import at runtime. Lighthouse, chrome-launcher and user scripts can be
+ * ES modules, which the require() that TypeScript and ncc would turn an import into cannot load.
+ */
+export const importModule = new Function('specifier', 'return import(specifier)') as <T>(specifier: string) => Promise<T>;
+
+/**
+ * Load a user script, an ES or CommonJS module whose default export is a function
+ */
+export async function importScriptFunction<T>(scriptPath: string, description: string): Promise<T> {
+    const resolvedPath = path.resolve(process.cwd(), scriptPath);
+    const scriptModule = await importModule<{ default?: unknown }>(`file://${resolvedPath}`);
+
+    let scriptFunction: unknown = scriptModule.default;
+    if (scriptFunction && typeof scriptFunction === 'object' && 'default' in scriptFunction) {
+        scriptFunction = (scriptFunction as { default: unknown }).default;
+    }
+    if (typeof scriptFunction !== 'function') {
+        throw new Error(`${description} ${scriptPath} must export a function`);
+    }
+    return scriptFunction as T;
+}
+
+/**
+ * Describe the current workflow run for templates
+ */
+export function getWorkflowRunContext(): Record<string, string | undefined> {
+    return {
+        url: getWorkflowRunUrl(),
+        repository: process.env.GITHUB_REPOSITORY,
+        workflow: process.env.GITHUB_WORKFLOW,
+        runId: process.env.GITHUB_RUN_ID,
+        sha: process.env.GITHUB_SHA,
+        ref: process.env.GITHUB_REF,
+        actor: process.env.GITHUB_ACTOR,
+        timestamp: new Date().toISOString()
     };
 }
 
+/**
+ * Convert a URL glob to a regular expression: `**` matches anything, `*` anything but `/` and `?` one character
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split('**')
+        .map(part => part
+            .split('*')
+            .map(piece => piece
+                .split('?')
+                .map(text => text.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+                .join('[^/]'))
+            .join('[^/]*'))
+        .join('.*');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a URL against a glob. Patterns starting with `/` match the URL path, others the whole URL.
+ */
+export function matchesUrlGlob(url: string, pattern: string): boolean {
+    let pathname = url;
+    if (pattern.startsWith('/')) {
+        try {
+            pathname = new URL(url).pathname;
+        } catch {
+            // Not an absolute URL, match the pattern against it as given
+        }
+    }
+    return globToRegExp(pattern).test(pathname);
+}
+
 /**
  * Parse a comma-separated input string into an array
  */
@@ -34,6 +269,151 @@ export function parseInputArray(input: string): string[] {
     return input.split(',').map(item => item.trim()).filter(Boolean);
 }
 
+/**
+ * Calculate the median of a list of numbers
+ */
+export function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted.length % 2 === 0
+        ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+        : sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Extract the audit values needed for assertions from a raw Lighthouse `audits` object
+ */
+export function extractAudits(audits: Record<string, any> | undefined): Record<string, LighthouseAudit> {
+    const extracted: Record<string, LighthouseAudit> = {};
+    if (!audits) {
+        return extracted;
+    }
+
+    for (const [id, audit] of Object.entries(audits)) {
+        const items = audit?.details?.items;
+        extracted[id] = {
+            id,
+            title: audit?.title || id,
+            score: typeof audit?.score === 'number' ? audit.score : null,
+            numericValue: typeof audit?.numericValue === 'number' ? audit.numericValue : undefined,
+            itemCount: Array.isArray(items) ? items.length : undefined
+        };
+    }
+
+    return extracted;
+}
+
+/**
+ * Extract the Core Web Vitals and lab metrics from a raw Lighthouse `audits` object
+ */
+export function extractMetrics(audits: Record<string, any> | undefined): Record<string, LighthouseMetric> {
+    const metrics: Record<string, LighthouseMetric> = {};
+    if (!audits) {
+        return metrics;
+    }
+
+    for (const [id, definition] of Object.entries(METRIC_DEFINITIONS)) {
+        const audit = audits[id];
+        if (typeof audit?.numericValue !== 'number') {
+            continue;
+        }
+        metrics[id] = {
+            id,
+            title: definition.title,
+            numericValue: audit.numericValue,
+            score: typeof audit.score === 'number' ? audit.score : null
+        };
+    }
+
+    return metrics;
+}
+
+/**
+ * Combine the metrics of multiple runs for the same URL/device using the median of each value
+ */
+export function averageMetrics(results: LighthouseResult[]): Record<string, LighthouseMetric> | undefined {
+    const runsWithMetrics = results.filter(r => r.metrics);
+    if (runsWithMetrics.length === 0) {
+        return undefined;
+    }
+
+    const averaged: Record<string, LighthouseMetric> = {};
+    const metricIds = new Set(runsWithMetrics.flatMap(r => Object.keys(r.metrics!)));
+
+    for (const id of metricIds) {
+        const runs = runsWithMetrics.map(r => r.metrics![id]).filter(Boolean);
+        const scores = runs.map(m => m.score).filter((v): v is number => v !== null);
+
+        averaged[id] = {
+            id,
+            title: runs[0].title,
+            numericValue: median(runs.map(m => m.numericValue)),
+            score: scores.length > 0 ? median(scores) : null
+        };
+    }
+
+    return averaged;
+}
+
+/**
+ * Rate a metric value against the Core Web Vitals thresholds
+ */
+export function getMetricRating(id: string, value: number): MetricRating {
+    const definition = METRIC_DEFINITIONS[id];
+    if (!definition || value <= definition.good) return 'good';
+    if (value <= definition.poor) return 'needs-improvement';
+    return 'poor';
+}
+
+/**
+ * Format a duration in milliseconds, e.g. `1.8 s` or `120 ms`
+ */
+export function formatDuration(ms: number): string {
+    if (ms >= 1000) {
+        return `${(ms / 1000).toFixed(1)} s`;
+    }
+    return `${Math.round(ms)} ms`;
+}
+
+/**
+ * Format a metric value in its natural unit, e.g. `1.8 s`, `120 ms` or `0.042`
+ */
+export function formatMetricValue(id: string, value: number): string {
+    if (id === 'cumulative-layout-shift') {
+        return value.toFixed(3);
+    }
+    return formatDuration(value);
+}
+
+/**
+ * Combine the audits of multiple runs for the same URL/device using the median of each value
+ */
+export function averageAudits(results: LighthouseResult[]): Record<string, LighthouseAudit> | undefined {
+    const runsWithAudits = results.filter(r => r.audits);
+    if (runsWithAudits.length === 0) {
+        return undefined;
+    }
+
+    const averaged: Record<string, LighthouseAudit> = {};
+    const auditIds = new Set(runsWithAudits.flatMap(r => Object.keys(r.audits!)));
+
+    for (const id of auditIds) {
+        const runs = runsWithAudits.map(r => r.audits![id]).filter(Boolean);
+        const scores = runs.map(a => a.score).filter((v): v is number => v !== null);
+        const numericValues = runs.map(a => a.numericValue).filter((v): v is number => v !== undefined);
+        const itemCounts = runs.map(a => a.itemCount).filter((v): v is number => v !== undefined);
+
+        averaged[id] = {
+            id,
+            title: runs[0].title,
+            score: scores.length > 0 ? median(scores) : null,
+            numericValue: numericValues.length > 0 ? median(numericValues) : undefined,
+            itemCount: itemCounts.length > 0 ? median(itemCounts) : undefined
+        };
+    }
+
+    return averaged;
+}
+
 /**
  * Calculate average scores across all results
  */
@@ -139,13 +519,120 @@ function calculateMaxScores(results: LighthouseResult[]): Record<string, number>
     return maxScores;
 }
 
+/**
+ * Calculate scores by URL and device type
+ */
+export function calculateScoresByUrlAndDevice(results: LighthouseResult[]): Record<string, Record<string, Record<string, number>>> {
+    const scores: Record<string, Record<string, Record<string, number>>> = {};
+
+    results.forEach(result => {
+        if (!scores[result.url]) {
+            scores[result.url] = {};
+        }
+        scores[result.url][result.deviceType] = {};
+        result.categories.forEach(category => {
+            scores[result.url][result.deviceType][category.id] = category.score;
+        });
+    });
+
+    return scores;
+}
+
+/**
+ * Find URL/device/category combinations whose score dropped by more than the threshold
+ */
+export function findRegressions(
+    results: LighthouseResult[],
+    baselineScores: Record<string, Record<string, Record<string, number>>>,
+    regressionThreshold: number
+): ScoreRegression[] {
+    const regressions: ScoreRegression[] = [];
+
+    results.forEach(result => {
+        const previous = baselineScores[result.url]?.[result.deviceType];
+        if (!previous) {
+            return;
+        }
+
+        result.categories.forEach(category => {
+            const previousScore = previous[category.id];
+            if (previousScore === undefined) {
+                return;
+            }
+            const drop = Math.round(previousScore * 100) - Math.round(category.score * 100);
+            if (drop > regressionThreshold) {
+                regressions.push({
+                    url: result.url,
+                    deviceType: result.deviceType,
+                    category: category.id,
+                    previousScore,
+                    currentScore: category.score
+                });
+            }
+        });
+    });
+
+    core.debug(`Found ${regressions.length} regressions`);
+    return regressions;
+}
+
+/**
+ * Calculate the average of all category scores per URL
+ */
+function calculateOverallScoresByUrl(results: LighthouseResult[]): Record<string, number> {
+    const overallScores: Record<string, number> = {};
+
+    for (const [url, scores] of Object.entries(calculateScoresByUrl(results))) {
+        const values = Object.values(scores);
+        if (values.length > 0) {
+            overallScores[url] = values.reduce((a, b) => a + b, 0) / values.length;
+        }
+    }
+
+    return overallScores;
+}
+
+/**
+ * Calculate per-URL score trends from previous runs followed by the current one.
+ * The sparkline shows the last `historySize` runs, the 7-day average uses every run of the past week.
+ */
+function calculateTrends(results: LighthouseResult[], history: HistoryEntry[], historySize?: number): Record<string, UrlTrend> {
+    const now = Date.now();
+    const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
+    const allRuns = [
+        ...history.map(entry => ({ time: new Date(entry.timestamp).getTime(), scores: calculateOverallScoresByUrl(entry.results) })),
+        { time: now, scores: calculateOverallScoresByUrl(results) }
+    ];
+    // The current run always takes one slot, without slice(-0) returning the whole history for a size of 1
+    const sparklineCount = historySize === undefined ? allRuns.length : Math.max(1, historySize);
+    const runs = allRuns.slice(allRuns.length - Math.min(allRuns.length, sparklineCount));
+    const weekRuns = allRuns.filter(run => run.time >= sevenDaysAgo);
+
+    const trends: Record<string, UrlTrend> = {};
+    for (const url of new Set(results.map(r => r.url))) {
+        const scores = runs.map(run => run.scores[url]).filter((score): score is number => score !== undefined);
+        const recentScores = weekRuns
+            .map(run => run.scores[url])
+            .filter((score): score is number => score !== undefined);
+
+        trends[url] = {
+            scores,
+            sevenDayAverage: recentScores.reduce((a, b) => a + b, 0) / recentScores.length
+        };
+    }
+
+    core.debug(`Calculated trends: ${JSON.stringify(trends)}`);
+    return trends;
+}
+
 /**
  * Format lighthouse results for Slack report
  */
-export function formatLighthouseResults(results: LighthouseResult[]): FormattedLighthouseResults {
+export function formatLighthouseResults(results: LighthouseResult[], options: FormatOptions = {}): FormattedLighthouseResults {
+    const { baseline, history, historySize, failures } = options;
     core.info(`Formatting ${results.length} lighthouse results`);
 
-    const summary = {
+    const summary: FormattedLighthouseResults['summary'] = {
         totalUrls: [...new Set(results.map(r => r.url))].length,
         totalTests: results.length,
         averageScores: calculateAverageScores(results),
@@ -155,14 +642,122 @@ export function formatLighthouseResults(results: LighthouseResult[]): FormattedL
         maxScores: calculateMaxScores(results)
     };
 
+    if (baseline && baseline.results.length > 0) {
+        summary.baselineScores = calculateScoresByUrlAndDevice(baseline.results);
+        summary.baselineAverageScores = calculateAverageScores(baseline.results);
+        summary.regressions = findRegressions(results, summary.baselineScores, baseline.regressionThreshold);
+    }
+
+    if (history && history.length > 0) {
+        summary.trends = calculateTrends(results, history, historySize);
+    }
+
     core.debug(`Summary: ${JSON.stringify(summary)}`);
 
     return {
         results,
+        failures: failures && failures.length > 0 ? failures : undefined,
         summary
     };
 }
 
+/**
+ * Narrow formatted results down to some URL/device combinations, recalculating the summary for them
+ */
+export function filterFormattedResults(
+    results: FormattedLighthouseResults,
+    predicate: (url: string, deviceType: string) => boolean
+): FormattedLighthouseResults {
+    const filtered = formatLighthouseResults(results.results.filter(result => predicate(result.url, result.deviceType)), {
+        failures: (results.failures || []).filter(failure => predicate(failure.url, failure.deviceType))
+    });
+    const { baselineScores, regressions, trends } = results.summary;
+
+    if (baselineScores) {
+        const baselineResults: LighthouseResult[] = Object.entries(baselineScores).flatMap(([url, devices]) =>
+            Object.entries(devices)
+                .filter(([deviceType]) => predicate(url, deviceType))
+                .map(([deviceType, scores]) => ({
+                    url,
+                    deviceType,
+                    categories: Object.entries(scores).map(([id, score]) => ({ id, title: getCategoryConfig(id).title, score }))
+                }))
+        );
+        filtered.summary.baselineScores = calculateScoresByUrlAndDevice(baselineResults);
+        filtered.summary.baselineAverageScores = calculateAverageScores(baselineResults);
+        filtered.summary.regressions = (regressions || []).filter(regression => predicate(regression.url, regression.deviceType));
+    }
+
+    if (trends) {
+        const urls = new Set(filtered.results.map(result => result.url));
+        filtered.summary.trends = Object.fromEntries(Object.entries(trends).filter(([url]) => urls.has(url)));
+    }
+
+    return filtered;
+}
+
+/**
+ * Derive the strongest and weakest categories and the biggest mobile/desktop gap
+ */
+export function getKeyInsights(results: FormattedLighthouseResults): KeyInsight[] {
+    let bestCategory = '';
+    let bestScore = 0;
+    let worstCategory = '';
+    let worstScore = 1;
+
+    for (const [category, score] of Object.entries(results.summary.averageScores)) {
+        if (score > bestScore) {
+            bestScore = score;
+            bestCategory = category;
+        }
+        if (score < worstScore) {
+            worstScore = score;
+            worstCategory = category;
+        }
+    }
+
+    if (!bestCategory || !worstCategory) {
+        return [];
+    }
+
+    const insights: KeyInsight[] = [
+        { label: 'Strongest Area', text: `${getCategoryConfig(bestCategory).title} at ${formatScore(bestScore)}` },
+        { label: 'Area for Improvement', text: `${getCategoryConfig(worstCategory).title} at ${formatScore(worstScore)}` }
+    ];
+
+    const mobileScores = results.summary.scoresByDevice['mobile'];
+    const desktopScores = results.summary.scoresByDevice['desktop'];
+
+    if (mobileScores && desktopScores) {
+        let biggestGapCategory = '';
+        let biggestGap = 0;
+        let mobileScore = 0;
+        let desktopScore = 0;
+
+        for (const [category, mobileAvg] of Object.entries(mobileScores)) {
+            const desktopAvg = desktopScores[category] || 0;
+            const gap = Math.abs(mobileAvg - desktopAvg);
+
+            if (gap > biggestGap) {
+                biggestGap = gap;
+                biggestGapCategory = category;
+                mobileScore = mobileAvg;
+                desktopScore = desktopAvg;
+            }
+        }
+
+        if (biggestGapCategory && biggestGap > 0.1) {
+            const betterDevice = mobileScore > desktopScore ? 'Mobile' : 'Desktop';
+            insights.push({
+                label: 'Device Gap',
+                text: `${getCategoryConfig(biggestGapCategory).title} is ${Math.round(biggestGap * 100)}% better on ${betterDevice}`
+            });
+        }
+    }
+
+    return insights;
+}
+
 /**
  * Format a number as percentage
  */
@@ -170,13 +765,40 @@ export function formatScore(score: number): string {
     return `${Math.round(score * 100)}%`;
 }
 
+/**
+ * Format the change between two scores in percentage points, e.g. `▼8` or `▲3`
+ */
+export function formatScoreDelta(currentScore: number, previousScore: number): string {
+    const delta = Math.round(currentScore * 100) - Math.round(previousScore * 100);
+    if (delta > 0) return `▲${delta}`;
+    if (delta < 0) return `▼${Math.abs(delta)}`;
+    return '=';
+}
+
+/**
+ * Draw a sparkline for a series of scores, scaled between its lowest and highest value
+ */
+export function formatSparkline(scores: number[]): string {
+    const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+    if (scores.length === 0) return '';
+
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    const range = max - min;
+
+    return scores.map(score => {
+        if (range === 0) return SPARK_CHARS[3];
+        return SPARK_CHARS[Math.round(((score - min) / range) * (SPARK_CHARS.length - 1))];
+    }).join('');
+}
+
 /**
  * Validate input values
  */
 export function validateInputs(): void {
-    const urls = parseInputArray(core.getInput('urls', { required: true }));
-    if (urls.length === 0) {
-        throw new Error('At least one URL must be provided');
+    const urls = parseInputArray(core.getInput('urls'));
+    if (urls.length === 0 && parseInputArray(core.getInput('flows')).length === 0) {
+        throw new Error('At least one URL or flow script must be provided');
     }
 
     urls.forEach(url => {
@@ -206,11 +828,46 @@ export function validateInputs(): void {
         throw new Error(`Invalid timeout value: ${timeoutInput}. Must be a positive number`);
     }
 
+    parseConcurrency(core.getInput('concurrency'));
+
+    const regressionThresholdInput = core.getInput('regression_threshold') || '5';
+    const regressionThreshold = parseInt(regressionThresholdInput);
+    if (isNaN(regressionThreshold) || regressionThreshold < 0 || regressionThreshold > 100) {
+        throw new Error(`Invalid regression_threshold value: ${regressionThresholdInput}. Must be a number between 0 and 100`);
+    }
+
+    const historySizeInput = core.getInput('history_size') || '10';
+    const historySize = parseInt(historySizeInput);
+    if (isNaN(historySize) || historySize < 1) {
+        throw new Error(`Invalid history_size value: ${historySizeInput}. Must be a positive number`);
+    }
+
+    const uploadMaxMbInput = core.getInput('slack_upload_max_mb') || '10';
+    const uploadMaxMb = parseFloat(uploadMaxMbInput);
+    if (isNaN(uploadMaxMb) || uploadMaxMb <= 0) {
+        throw new Error(`Invalid slack_upload_max_mb value: ${uploadMaxMbInput}. Must be a positive number`);
+    }
+
+    const webhookRetriesInput = core.getInput('webhook_retries') || '3';
+    const webhookRetries = parseInt(webhookRetriesInput);
+    if (isNaN(webhookRetries) || webhookRetries < 0) {
+        throw new Error(`Invalid webhook_retries value: ${webhookRetriesInput}. Must be zero or a positive number`);
+    }
+
+    const notifyOn = core.getInput('notify_on') || 'always';
+    if (!['always', 'failure', 'regression', 'change'].includes(notifyOn)) {
+        throw new Error(`Invalid notify_on value: ${notifyOn}. Must be 'always', 'failure', 'regression' or 'change'`);
+    }
+
     const hasWebhookUrl = !!core.getInput('slack_webhook_url');
     const hasSlackToken = !!core.getInput('slack_token');
+    const hasTeamsWebhookUrl = !!core.getInput('teams_webhook_url');
+    const hasDiscordWebhookUrl = !!core.getInput('discord_webhook_url');
+    const hasGenericWebhookUrl = !!core.getInput('webhook_url');
+    const hasSlackRoutes = !!core.getInput('slack_routes');
 
-    if (!hasWebhookUrl && !hasSlackToken) {
-        throw new Error('Either slack_webhook_url or slack_token must be provided');
+    if (!hasWebhookUrl && !hasSlackToken && !hasTeamsWebhookUrl && !hasDiscordWebhookUrl && !hasGenericWebhookUrl && !hasSlackRoutes) {
+        throw new Error('One of slack_webhook_url, slack_token, slack_routes, teams_webhook_url, discord_webhook_url or webhook_url must be provided');
     }
 
     core.info('Input validation successful');
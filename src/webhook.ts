@@ -0,0 +1,157 @@
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssertionResult } from './assertions';
+import { renderTemplate } from './template';
+import { FormattedLighthouseResults, LighthouseResult, getWorkflowRunContext } from './utils';
+
+/**
+ * Parse custom headers given as a JSON object or as `Name: value` lines
+ */
+function parseHeaders(input: string): Record<string, string> {
+    const trimmed = input.trim();
+    if (!trimmed) {
+        return {};
+    }
+
+    if (trimmed.startsWith('{')) {
+        const parsed = JSON.parse(trimmed);
+        return Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name, String(value)]));
+    }
+
+    const headers: Record<string, string> = {};
+    trimmed.split('\n').map(line => line.trim()).filter(line => line).forEach(line => {
+        const separator = line.indexOf(':');
+        if (separator <= 0) {
+            throw new Error(`Invalid header '${line}', expected 'Name: value'`);
+        }
+        headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    });
+    return headers;
+}
+
+/**
+ * Build the object that webhook templates are rendered against
+ */
+function createTemplateView(
+    results: FormattedLighthouseResults,
+    title: string,
+    assertionResults: AssertionResult[]
+): Record<string, any> {
+    return {
+        ...results,
+        title,
+        assertionResults,
+        // Same rule as the passed output: tests that could not run fail the run like failed assertions
+        passed: (results.failures || []).length === 0 && !assertionResults.some(result => !result.passed && result.level === 'error'),
+        run: getWorkflowRunContext()
+    };
+}
+
+/**
+ * Render the request body from the template file, or send the view as JSON without one. The JSON body
+ * leaves out the audits of every result, which would make it several MB for a handful of URLs.
+ */
+function createWebhookBody(view: Record<string, any>, templatePath: string): string {
+    if (!templatePath) {
+        const results: LighthouseResult[] = view.results.map((result: LighthouseResult) => ({ ...result, audits: undefined }));
+        return JSON.stringify({ ...view, results });
+    }
+
+    const resolvedPath = path.resolve(process.cwd(), templatePath);
+    if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`Webhook template not found: ${resolvedPath}`);
+    }
+    return renderTemplate(fs.readFileSync(resolvedPath, 'utf8'), view);
+}
+
+/**
+ * POST the body, retrying network errors, 429 and 5xx responses with exponential backoff
+ */
+async function sendWithRetry(
+    webhookUrl: string,
+    body: string,
+    headers: Record<string, string>,
+    retries: number,
+    timeoutMs: number
+): Promise<void> {
+    let retryDelay = 1000;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        if (attempt > 0) {
+            core.info(`  Retry attempt ${attempt}/${retries} for webhook in ${retryDelay}ms`);
+            await new Promise(resolve => setTimeout(resolve, retryDelay));
+            retryDelay = Math.min(retryDelay * 2, 30000);
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(webhookUrl, { method: 'POST', headers, body, signal: AbortSignal.timeout(timeoutMs) });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (attempt < retries) {
+                core.warning(`Webhook request failed: ${errorMessage}, will retry...`);
+                continue;
+            }
+            throw error;
+        }
+
+        if (response.ok) {
+            core.debug(`Webhook responded with ${response.status}`);
+            return;
+        }
+
+        const errorText = await response.text();
+        if ((response.status === 429 || response.status >= 500) && attempt < retries) {
+            core.warning(`Webhook returned ${response.status}, will retry...`);
+            continue;
+        }
+        throw new Error(`Webhook error: ${response.status} - ${errorText}`);
+    }
+}
+
+/**
+ * Send Lighthouse results to a generic webhook, optionally rendered from a template and signed with HMAC-SHA256
+ */
+export async function sendWebhookReport(
+    results: FormattedLighthouseResults,
+    title: string = 'Lighthouse Test Results',
+    assertionResults: AssertionResult[] = []
+): Promise<void> {
+    const webhookUrl = core.getInput('webhook_url');
+    const templatePath = core.getInput('webhook_template');
+    const secret = core.getInput('webhook_secret');
+    const retries = parseInt(core.getInput('webhook_retries') || '3');
+    const timeoutMs = parseInt(core.getInput('webhook_timeout_ms') || '10000');
+
+    if (!webhookUrl) {
+        throw new Error('webhook_url must be provided');
+    }
+
+    core.info('Preparing to send report to webhook');
+
+    const body = createWebhookBody(createTemplateView(results, title, assertionResults), templatePath);
+    const headers = parseHeaders(core.getInput('webhook_headers'));
+    let contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+    if (!contentType) {
+        contentType = 'application/json';
+        headers['Content-Type'] = contentType;
+    }
+
+    if (secret) {
+        const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+        headers['X-Signature-256'] = `sha256=${signature}`;
+    }
+
+    if (contentType.includes('json')) {
+        try {
+            JSON.parse(body);
+        } catch {
+            core.warning('The rendered webhook body is not valid JSON, check webhook_template');
+        }
+    }
+
+    await sendWithRetry(webhookUrl, body, headers, retries, timeoutMs);
+    core.info('Successfully sent report to webhook');
+}